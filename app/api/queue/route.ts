@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { taskQueue, generateSessionId, queueLimitsUpdateSchema } from "@/lib/task-queue";
+import type { AgentTask, TaskAction, TaskMode } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+// GET - Current queue state (limits, running and pending tasks)
+export async function GET() {
+  return NextResponse.json(taskQueue.getSnapshot());
+}
+
+// POST - Enqueue an action for a batch of repos
+export async function POST(req: Request) {
+  try {
+    const { repos, action, mode, prompt, customPrompt, model, useWorktree, autoRepair } = (await req.json()) as {
+      repos?: Array<{ path: string; name: string; prompt?: string }>;
+      action?: TaskAction;
+      mode?: TaskMode;
+      prompt?: string;
+      customPrompt?: string;
+      model?: string;
+      useWorktree?: boolean;
+      autoRepair?: boolean;
+    };
+
+    if (!Array.isArray(repos) || repos.length === 0 || !action || !prompt) {
+      return NextResponse.json(
+        { error: "repos, action and prompt are required" },
+        { status: 400 }
+      );
+    }
+
+    const tasks: AgentTask[] = repos.map((repo) => {
+      // A repo can bring its own version of the prompt (e.g. with its installed versions)
+      const repoPrompt = repo.prompt || prompt;
+      return taskQueue.enqueue({
+        id: `task-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+        repoPath: repo.path,
+        repoName: repo.name,
+        action,
+        mode,
+        status: "pending",
+        customPrompt: action === "custom" ? customPrompt : undefined,
+        createdAt: Date.now(),
+        messages: [],
+        tokenCount: 0,
+        terminalOutput: [],
+        lastActivityTime: Date.now(),
+        // Plans get their own session so a later real run doesn't inherit the read-only context
+        sessionId: generateSessionId(repo.path, mode === "plan" ? `plan::${repoPrompt}` : repoPrompt),
+        model,
+        prompt: repoPrompt,
+        useWorktree,
+        autoRepair,
+      });
+    });
+
+    console.log(`[Queue] Enqueued ${tasks.length} ${action} tasks`);
+    return NextResponse.json({ tasks, queue: taskQueue.getSnapshot() });
+  } catch (error) {
+    console.error("Error enqueuing tasks:", error);
+    return NextResponse.json(
+      { error: "Failed to enqueue tasks" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Update concurrency limits
+export async function PATCH(req: Request) {
+  try {
+    const parsed = queueLimitsUpdateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(
+        (issue) => `${issue.path.join(".") || "limits"}: ${issue.message}`
+      );
+      return NextResponse.json(
+        { error: `Invalid limits (${issues.join("; ")})` },
+        { status: 400 }
+      );
+    }
+    const { maxConcurrent, perModel } = parsed.data;
+
+    taskQueue.setLimits({ maxConcurrent, perModel });
+    return NextResponse.json(taskQueue.getSnapshot());
+  } catch (error) {
+    console.error("Error updating queue limits:", error);
+    return NextResponse.json(
+      { error: "Failed to update queue limits" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a pending task from the queue
+export async function DELETE(req: Request) {
+  const url = new URL(req.url);
+  const taskId = url.searchParams.get("taskId");
+
+  if (!taskId) {
+    return NextResponse.json(
+      { error: "taskId is required" },
+      { status: 400 }
+    );
+  }
+
+  if (!taskQueue.cancel(taskId)) {
+    return NextResponse.json(
+      { error: "Task is not pending in the queue" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
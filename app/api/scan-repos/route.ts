@@ -1,7 +1,12 @@
 import { NextResponse } from "next/server";
 import fs from "fs/promises";
 import path from "path";
-import type { RepoInfo } from "@/lib/types";
+import { getRepoGitInfo, getRepoRoot } from "@/lib/git";
+import { detectWorkspace, linkWorkspaceMembers } from "@/lib/workspaces";
+import { detectRepoTags, getMainFramework } from "@/lib/frameworks";
+import { parsePackageManagerField, readLockfile, type Lockfile } from "@/lib/lockfiles";
+import { ECOSYSTEM_MANIFESTS, readProject } from "@/lib/ecosystems";
+import type { RepoGitInfo, RepoInfo } from "@/lib/types";
 
 export const runtime = "nodejs";
 
@@ -16,40 +21,15 @@ const SKIP_DIRS = new Set([
   "coverage",
   ".turbo",
   ".vercel",
+  "target",
+  "vendor",
+  "venv",
+  "__pycache__",
 ]);
 
 // Max depth to prevent scanning too deep
 const MAX_DEPTH = 4;
 
-// Detect framework from dependencies
-const detectFramework = (
-  deps: Record<string, string>,
-  devDeps: Record<string, string>
-): { framework: RepoInfo["framework"]; version: string | null } => {
-  const allDeps = { ...deps, ...devDeps };
-
-  if (allDeps["next"]) {
-    return { framework: "nextjs", version: deps["next"] || devDeps["next"] };
-  }
-  if (allDeps["vue"]) {
-    return { framework: "vue", version: deps["vue"] || devDeps["vue"] };
-  }
-  if (allDeps["@angular/core"]) {
-    return {
-      framework: "angular",
-      version: deps["@angular/core"] || devDeps["@angular/core"],
-    };
-  }
-  if (allDeps["svelte"]) {
-    return { framework: "svelte", version: deps["svelte"] || devDeps["svelte"] };
-  }
-  if (allDeps["react"]) {
-    return { framework: "react", version: deps["react"] || devDeps["react"] };
-  }
-
-  return { framework: null, version: null };
-};
-
 // Check if project uses TypeScript
 const hasTypeScript = (
   deps: Record<string, string>,
@@ -59,28 +39,32 @@ const hasTypeScript = (
   return !!allDeps["typescript"];
 };
 
-// Recursively find package.json files
-const findPackageJsons = async (
+// A directory with a package.json or another ecosystem's manifest, and its file names
+interface ProjectDir {
+  dir: string;
+  files: Set<string>;
+}
+
+// Recursively find project directories
+const findProjectDirs = async (
   dirPath: string,
   depth: number = 0
-): Promise<string[]> => {
+): Promise<ProjectDir[]> => {
   if (depth > MAX_DEPTH) return [];
 
-  const results: string[] = [];
+  const results: ProjectDir[] = [];
 
   try {
     const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    const files = new Set(entries.filter((entry) => entry.isFile()).map((entry) => entry.name));
+    if (files.has("package.json") || Array.from(files).some((file) => ECOSYSTEM_MANIFESTS.has(file))) {
+      results.push({ dir: dirPath, files });
+    }
 
     for (const entry of entries) {
-      const fullPath = path.join(dirPath, entry.name);
-
-      if (entry.isDirectory()) {
-        if (!SKIP_DIRS.has(entry.name) && !entry.name.startsWith(".")) {
-          const nested = await findPackageJsons(fullPath, depth + 1);
-          results.push(...nested);
-        }
-      } else if (entry.name === "package.json") {
-        results.push(fullPath);
+      if (entry.isDirectory() && !SKIP_DIRS.has(entry.name) && !entry.name.startsWith(".")) {
+        const nested = await findProjectDirs(path.join(dirPath, entry.name), depth + 1);
+        results.push(...nested);
       }
     }
   } catch {
@@ -90,6 +74,64 @@ const findPackageJsons = async (
   return results;
 };
 
+// Git state for a project - packages of the same repo share one lookup per scan
+const readGitInfo = async (
+  repoPath: string,
+  cache: Map<string, Promise<RepoGitInfo>>
+): Promise<RepoGitInfo | null> => {
+  const repoRoot = await getRepoRoot(repoPath).catch(() => null);
+  if (!repoRoot) return null;
+
+  if (!cache.has(repoRoot)) {
+    cache.set(repoRoot, getRepoGitInfo(repoRoot));
+  }
+  try {
+    return await cache.get(repoRoot)!;
+  } catch (error) {
+    console.warn(`Failed to read git state of ${repoRoot}:`, error);
+    return null;
+  }
+};
+
+// Record the versions the project's lockfile (or its monorepo root's) resolved its direct
+// dependencies to. Lockfiles are parsed once per scan.
+const resolveInstalledVersions = async (
+  repo: RepoInfo,
+  reposByPath: Map<string, RepoInfo>,
+  cache: Map<string, Promise<Lockfile | null>>
+) => {
+  const root = repo.workspaceRoot ? reposByPath.get(repo.workspaceRoot) : undefined;
+  for (const dir of root ? [repo.path, root.path] : [repo.path]) {
+    if (!cache.has(dir)) {
+      cache.set(
+        dir,
+        readLockfile(dir).catch((error) => {
+          console.warn(error instanceof Error ? error.message : error);
+          return null;
+        })
+      );
+    }
+    const lockfile = await cache.get(dir)!;
+    if (!lockfile) continue;
+
+    const importer = path.relative(dir, repo.path).split(path.sep).join("/") || ".";
+    const installedVersions: Record<string, string> = {};
+    for (const [name, range] of Object.entries({ ...repo.devDependencies, ...repo.dependencies })) {
+      const version = lockfile.resolve(name, range, importer);
+      if (version) installedVersions[name] = version;
+    }
+
+    const frameworkPackage = repo.tags ? getMainFramework(repo.tags)?.package : undefined;
+    repo.packageManager ??= root?.packageManager ?? lockfile.packageManager;
+    repo.lockfile = lockfile.file;
+    repo.installedVersions = installedVersions;
+    repo.frameworkInstalledVersion = frameworkPackage ? installedVersions[frameworkPackage] ?? null : null;
+    return;
+  }
+
+  repo.packageManager ??= root?.packageManager ?? null;
+};
+
 // Parse package.json and extract repo info
 const parsePackageJson = async (
   packageJsonPath: string
@@ -101,16 +143,24 @@ const parsePackageJson = async (
     const repoPath = path.dirname(packageJsonPath);
     const deps = pkg.dependencies || {};
     const devDeps = pkg.devDependencies || {};
-    const { framework, version } = detectFramework(deps, devDeps);
+    const tags = detectRepoTags(deps, devDeps);
+    const framework = getMainFramework(tags);
+    const workspace = await detectWorkspace(repoPath, pkg);
+    const hasTs = hasTypeScript(deps, devDeps);
 
     return {
       path: repoPath,
       name: pkg.name || path.basename(repoPath),
-      hasTypescript: hasTypeScript(deps, devDeps),
-      framework,
-      frameworkVersion: version,
+      ecosystem: "node",
+      language: hasTs ? "typescript" : "javascript",
+      hasTypescript: hasTs,
+      framework: framework?.id ?? null,
+      frameworkVersion: framework?.version ?? null,
+      tags,
       dependencies: deps,
       devDependencies: devDeps,
+      packageManager: parsePackageManagerField(pkg.packageManager) ?? undefined,
+      ...(workspace && { workspace: { ...workspace, packages: [] } }),
     };
   } catch {
     return null;
@@ -149,18 +199,33 @@ export async function POST(req: Request) {
       );
     }
 
-    // Find all package.json files
-    const packageJsonPaths = await findPackageJsons(expandedPath);
+    // Find all project directories
+    const projectDirs = await findProjectDirs(expandedPath);
 
-    // Parse each package.json
+    // Parse each project - package.json wins over other manifests (e.g. a Django app with
+    // a bundled frontend)
     const repos: RepoInfo[] = [];
-    for (const pkgPath of packageJsonPaths) {
-      const repoInfo = await parsePackageJson(pkgPath);
+    const gitInfoCache = new Map<string, Promise<RepoGitInfo>>();
+    for (const { dir, files } of projectDirs) {
+      const repoInfo = files.has("package.json")
+        ? await parsePackageJson(path.join(dir, "package.json"))
+        : await readProject(dir, files);
       if (repoInfo) {
+        repoInfo.git = await readGitInfo(repoInfo.path, gitInfoCache);
         repos.push(repoInfo);
       }
     }
 
+    // Group workspace packages under their monorepo roots
+    linkWorkspaceMembers(repos);
+
+    // Installed versions from JavaScript lockfiles
+    const reposByPath = new Map(repos.map((r) => [r.path, r]));
+    const lockfileCache = new Map<string, Promise<Lockfile | null>>();
+    for (const repo of repos.filter((r) => r.ecosystem === "node")) {
+      await resolveInstalledVersions(repo, reposByPath, lockfileCache);
+    }
+
     // Sort by name
     repos.sort((a, b) => a.name.localeCompare(b.name));
 
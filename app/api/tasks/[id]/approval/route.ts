@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import dbOperations from "@/lib/db";
+import { taskQueue } from "@/lib/task-queue";
+import { buildApprovalFollowUp } from "@/lib/tool-policy";
+import type { ApprovalDecision, PolicyLogEntry } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+// POST - Approve or deny the tool call a task is paused on, then let the agent continue
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { decision } = (await req.json()) as { decision?: ApprovalDecision };
+    const task = dbOperations.getTask(id);
+
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    if (decision !== "approve" && decision !== "deny") {
+      return NextResponse.json(
+        { error: 'Decision must be "approve" or "deny"' },
+        { status: 400 }
+      );
+    }
+
+    const approval = task.pendingApproval;
+    if (task.status !== "awaiting-approval" || !approval) {
+      return NextResponse.json(
+        { error: `Task is not awaiting approval (task is ${task.status})` },
+        { status: 409 }
+      );
+    }
+
+    const policyEntry: PolicyLogEntry = {
+      timestamp: Date.now(),
+      callId: approval.callId,
+      toolType: approval.toolType,
+      target: approval.target,
+      decision: decision === "approve" ? "allow" : "deny",
+      ruleId: approval.ruleId,
+      reason: decision === "approve" ? "Approved by the user" : "Denied by the user",
+    };
+
+    // The queue sends the decision to the task's agent, which is still waiting in its session
+    const continuedTask = taskQueue.enqueue(
+      {
+        ...task,
+        pendingApproval: undefined,
+        approvedToolCalls:
+          decision === "approve"
+            ? [...(task.approvedToolCalls || []), approval.target]
+            : task.approvedToolCalls,
+        policyLog: [...(task.policyLog || []), policyEntry],
+      },
+      { followUp: buildApprovalFollowUp(approval, decision) }
+    );
+
+    console.log(`${decision === "approve" ? "✅ Approved" : "🚫 Denied"} ${approval.toolType} for task ${id}: ${approval.target}`);
+    return NextResponse.json({ task: continuedTask });
+  } catch (error) {
+    console.error("Error deciding on tool approval:", error);
+    return NextResponse.json(
+      { error: "Failed to record approval decision" },
+      { status: 500 }
+    );
+  }
+}
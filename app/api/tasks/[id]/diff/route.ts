@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import dbOperations from "@/lib/db";
+import { getDiffSince, getTaskDirectory, revertFileToCommit } from "@/lib/git";
+import { ACTIVE_TASK_STATUSES, type AgentTask, type TaskDiff } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+// Why a file can't be reverted without risking the user's own work, if it can't
+const getRevertBlocker = (task: AgentTask, path: string) => {
+  if (task.worktree) {
+    return task.worktree.removedAt
+      ? "The task's worktree has been removed - its changes are no longer separate from yours"
+      : null;
+  }
+  if (!task.preexistingChanges) {
+    return "This task didn't record which files you had already changed, so reverting could lose your work";
+  }
+  if (task.preexistingChanges.includes(path)) {
+    return `${path} already had uncommitted changes when the task started`;
+  }
+  return null;
+};
+
+// GET - Files the task changed since the commit it started from
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const task = dbOperations.getTask(id);
+
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!task.baseCommit) {
+      return NextResponse.json(
+        { error: "No base commit recorded for this task (not a git repository?)" },
+        { status: 404 }
+      );
+    }
+
+    const diff: TaskDiff = {
+      baseCommit: task.baseCommit,
+      files: await getDiffSince(getTaskDirectory(task), task.baseCommit, task.preexistingChanges),
+      excluded: task.preexistingChanges || [],
+      review: task.fileReview || {},
+    };
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error("Error computing task diff:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to compute diff" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Accept a file's changes, or revert it to the base commit
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { path, action } = await req.json();
+    const task = dbOperations.getTask(id);
+
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!task.baseCommit) {
+      return NextResponse.json(
+        { error: "No base commit recorded for this task" },
+        { status: 404 }
+      );
+    }
+
+    if (typeof path !== "string" || !path || (action !== "accept" && action !== "revert")) {
+      return NextResponse.json(
+        { error: 'path and action ("accept" or "revert") are required' },
+        { status: 400 }
+      );
+    }
+
+    if (ACTIVE_TASK_STATUSES.includes(task.status)) {
+      return NextResponse.json(
+        { error: "Wait for the agent to finish before reviewing its changes" },
+        { status: 409 }
+      );
+    }
+
+    // Only files this task changed - anything else in the checkout isn't the task's to touch
+    const directory = getTaskDirectory(task);
+    const changedFiles = await getDiffSince(directory, task.baseCommit, task.preexistingChanges);
+    if (!changedFiles.some((file) => file.path === path)) {
+      return NextResponse.json(
+        { error: `${path} isn't one of the files this task changed` },
+        { status: 400 }
+      );
+    }
+
+    if (action === "revert") {
+      const blocker = getRevertBlocker(task, path);
+      if (blocker) {
+        return NextResponse.json({ error: blocker }, { status: 409 });
+      }
+
+      await revertFileToCommit(directory, task.baseCommit, path);
+      console.log(`↩️ Reverted ${path} in ${task.repoName} to ${task.baseCommit.slice(0, 7)}`);
+    }
+
+    task.fileReview = {
+      ...task.fileReview,
+      [path]: action === "accept" ? "accepted" : "reverted",
+    };
+    dbOperations.updateTask(task);
+
+    return NextResponse.json({ review: task.fileReview });
+  } catch (error) {
+    console.error("Error reviewing task file:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to review file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import dbOperations from "@/lib/db";
+import { rebuildMessages } from "@/lib/task-events";
+
+export const runtime = "nodejs";
+
+// GET - The task's raw event log (?after=<seq> for only newer events), or with
+// ?view=messages the chat messages rebuilt from the full log
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const url = new URL(req.url);
+
+    if (!dbOperations.getTask(id)) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    if (url.searchParams.get("view") === "messages") {
+      return NextResponse.json({ messages: rebuildMessages(dbOperations.getTaskEvents(id)) });
+    }
+
+    const after = Number.parseInt(url.searchParams.get("after") || "0", 10) || 0;
+    return NextResponse.json({ events: dbOperations.getTaskEvents(id, after) });
+  } catch (error) {
+    console.error("Error reading task events:", error);
+    return NextResponse.json(
+      { error: "Failed to read task events" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import dbOperations from "@/lib/db";
+import { taskQueue } from "@/lib/task-queue";
+
+export const runtime = "nodejs";
+
+// POST - Resume an interrupted task with a new agent seeded from its transcript
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const task = dbOperations.getTask(id);
+
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    if (task.status !== "interrupted") {
+      return NextResponse.json(
+        { error: `Only interrupted tasks can be resumed (task is ${task.status})` },
+        { status: 409 }
+      );
+    }
+
+    // The old agent session died with the server, so start a fresh one
+    const resumedTask = taskQueue.enqueue(
+      { ...task, sessionId: undefined },
+      { resume: true }
+    );
+
+    console.log(`▶️ Resuming interrupted task ${id} (${task.repoName})`);
+    return NextResponse.json({ task: resumedTask });
+  } catch (error) {
+    console.error("Error resuming task:", error);
+    return NextResponse.json(
+      { error: "Failed to resume task" },
+      { status: 500 }
+    );
+  }
+}
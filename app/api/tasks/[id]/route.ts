@@ -3,6 +3,22 @@ import dbOperations from "@/lib/db";
 
 export const runtime = "nodejs";
 
+// GET - A specific task
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const task = dbOperations.getTask(id);
+  if (!task) {
+    return NextResponse.json(
+      { error: "Task not found" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ task });
+}
+
 // DELETE - Delete a specific task
 export async function DELETE(
   req: Request,
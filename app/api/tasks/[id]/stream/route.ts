@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import dbOperations from "@/lib/db";
+import {
+  formatSseEvent,
+  getBufferedEvents,
+  getLiveTask,
+  subscribeToTaskStream,
+} from "@/lib/task-streams";
+import type { AgentUpdate } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+// GET - Attach to a task's updates as Server-Sent Events. With a Last-Event-ID header the
+// events after that id are replayed first; without one the stream starts with a snapshot
+// of the task. Either way it then follows the run live and ends when the run does.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const task = dbOperations.getTask(id);
+
+  if (!task) {
+    return NextResponse.json(
+      { error: "Task not found" },
+      { status: 404 }
+    );
+  }
+
+  const lastEventHeader = req.headers.get("last-event-id");
+  const lastEventId = lastEventHeader !== null ? Number.parseInt(lastEventHeader, 10) : Number.NaN;
+
+  const encoder = new TextEncoder();
+  let closed = false;
+  let unsubscribe: (() => void) | null = null;
+
+  const readableStream = new ReadableStream({
+    start(controller) {
+      const send = (update: AgentUpdate, eventId?: number) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(formatSseEvent(update, eventId)));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe?.();
+        controller.close();
+      };
+
+      // Catch up: the events the client missed, or where the task stands right now
+      let lastSent: number;
+      if (Number.isFinite(lastEventId)) {
+        const missed = getBufferedEvents(id, lastEventId) ?? dbOperations.getTaskEvents(id, lastEventId);
+        for (const event of missed) {
+          send(event.update, event.seq);
+        }
+        lastSent = missed[missed.length - 1]?.seq ?? lastEventId;
+      } else {
+        const live = getLiveTask(id);
+        lastSent = live?.lastSeq ?? dbOperations.getTaskEvents(id).at(-1)?.seq ?? 0;
+        send({ type: "snapshot", task: live?.task ?? task }, lastSent);
+      }
+
+      // Then follow the run, if one is going
+      unsubscribe = subscribeToTaskStream(id, {
+        onEvent: (event) => {
+          if (event.seq <= lastSent) return;
+          lastSent = event.seq;
+          send(event.update, event.seq);
+        },
+        onEnd: close,
+      });
+      if (!unsubscribe) {
+        close();
+      }
+    },
+    cancel() {
+      closed = true;
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(readableStream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
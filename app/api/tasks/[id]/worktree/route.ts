@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import dbOperations from "@/lib/db";
+import { UnsavedWorktreeError, mergeTaskWorktree, removeTaskWorktree } from "@/lib/git";
+import { ACTIVE_TASK_STATUSES } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+// POST - Merge a task's worktree branch back, or remove the worktree. Removing one with
+// uncommitted or unmerged work needs {"confirm": true}.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { action, confirm } = await req.json();
+    const task = dbOperations.getTask(id);
+
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    const worktree = task.worktree;
+    if (!worktree || worktree.removedAt) {
+      return NextResponse.json(
+        { error: "Task has no active worktree" },
+        { status: 404 }
+      );
+    }
+
+    // A paused or queued run would resume in a checkout that's gone or has moved on
+    if (ACTIVE_TASK_STATUSES.includes(task.status)) {
+      return NextResponse.json(
+        { error: "Wait for the agent to finish before changing its worktree" },
+        { status: 409 }
+      );
+    }
+
+    if (action === "merge") {
+      const mergeCommit = await mergeTaskWorktree(
+        worktree,
+        `${task.action}: ${task.repoName} (agent task ${task.id})`
+      );
+      worktree.mergedAt = Date.now();
+      worktree.mergeCommit = mergeCommit;
+      console.log(`🔀 Merged ${worktree.branch} into ${worktree.repoRoot}`);
+    } else if (action === "cleanup") {
+      try {
+        await removeTaskWorktree(worktree, { force: confirm === true });
+      } catch (error) {
+        if (!(error instanceof UnsavedWorktreeError)) throw error;
+        return NextResponse.json(
+          { error: `${error.message}. Removing the worktree would lose them.`, requiresConfirmation: true },
+          { status: 409 }
+        );
+      }
+      worktree.removedAt = Date.now();
+      console.log(`🧹 Removed worktree ${worktree.path}`);
+    } else {
+      return NextResponse.json(
+        { error: 'Action must be "merge" or "cleanup"' },
+        { status: 400 }
+      );
+    }
+
+    dbOperations.updateTask(task);
+    return NextResponse.json({ task });
+  } catch (error) {
+    console.error("Error updating task worktree:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update worktree" },
+      { status: 500 }
+    );
+  }
+}
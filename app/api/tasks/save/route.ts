@@ -1,9 +1,41 @@
 import { NextResponse } from "next/server";
 import dbOperations from "@/lib/db";
-import type { AgentTask } from "@/lib/types";
+import { taskQueue } from "@/lib/task-queue";
+import type { AgentTask, TaskStatus } from "@/lib/types";
 
 export const runtime = "nodejs";
 
+// Fields only the server writes - the stored value wins over the client's possibly stale copy.
+// The runner rebuilds the conversation from the task's event log, so that includes messages.
+const SERVER_MANAGED_FIELDS = [
+  "messages",
+  "terminalOutput",
+  "tokenCount",
+  "worktree",
+  "baseCommit",
+  "preexistingChanges",
+  "fileReview",
+  "commitSha",
+  "commitError",
+  "verification",
+  "repairAttempts",
+  "plan",
+  "policyLog",
+  "pendingApproval",
+  "approvedToolCalls",
+  "runOwner",
+] as const;
+
+// Statuses only the runner sets. The client may create a task as "pending" or mark it "failed"
+// when the request that should start it didn't get through - but not while the queue has it.
+const RUNNER_STATUSES: TaskStatus[] = [
+  "running",
+  "completed",
+  "cancelled",
+  "interrupted",
+  "awaiting-approval",
+];
+
 // POST - Save or update a task
 export async function POST(req: Request) {
   try {
@@ -20,8 +52,18 @@ export async function POST(req: Request) {
     const existingTask = dbOperations.getTask(task.id);
 
     if (existingTask) {
-      // Update existing task
-      dbOperations.updateTask(task as AgentTask);
+      // Update existing task, keeping the server's copy of server-managed fields
+      const updatedTask = { ...(task as AgentTask) };
+      for (const field of SERVER_MANAGED_FIELDS) {
+        if (existingTask[field] !== undefined) {
+          Object.assign(updatedTask, { [field]: existingTask[field] });
+        }
+      }
+      if (RUNNER_STATUSES.includes(updatedTask.status) || taskQueue.isQueued(task.id)) {
+        updatedTask.status = existingTask.status;
+        updatedTask.error = existingTask.error;
+      }
+      dbOperations.updateTask(updatedTask);
     } else {
       // Save new task
       dbOperations.saveTask(task as AgentTask);
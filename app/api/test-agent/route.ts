@@ -1,4 +1,6 @@
-import { CursorAgent, type WorkingLocation } from "@cursor-ai/january";
+import { parseAgentUpdate } from "@/lib/agent-events";
+import { agentProvider } from "@/lib/agent-provider";
+import { formatSseEvent } from "@/lib/task-streams";
 
 export const runtime = "nodejs";
 export const maxDuration = 300;
@@ -68,11 +70,11 @@ export async function POST(req: Request) {
       );
     }
 
-    const apiKey = process.env.CURSOR_API_KEY;
-    if (!apiKey) {
-      console.error("ERROR: CURSOR_API_KEY not configured");
+    const configError = agentProvider.configError();
+    if (configError) {
+      console.error("ERROR:", configError);
       return new Response(
-        JSON.stringify({ error: "CURSOR_API_KEY not configured" }),
+        JSON.stringify({ error: configError }),
         {
           status: 500,
           headers: { "Content-Type": "application/json" },
@@ -81,25 +83,18 @@ export async function POST(req: Request) {
     }
 
     console.log("\n--- Creating Agent ---");
-    console.log("API Key present:", !!apiKey);
-    console.log("API Key length:", apiKey.length);
+    console.log("Provider:", agentProvider.name);
     console.log("Model: claude-4-sonnet");
 
-    const workingLocation: WorkingLocation = {
-      type: "local",
-      localDirectory: workingDirectory,
-    };
-
-    const agent = new CursorAgent({
-      apiKey,
+    const agent = agentProvider.createAgent({
       model: "claude-4-sonnet",
-      workingLocation,
+      workingDirectory,
     });
 
     console.log("Agent created successfully");
     console.log("\n--- Submitting Message ---");
 
-    const { stream } = agent.submit({ message });
+    const { stream, done } = agent.submit(message);
     console.log("Stream obtained");
 
     // Create SSE stream
@@ -148,8 +143,10 @@ export async function POST(req: Request) {
           }, 5 * 60 * 1000);
 
           try {
-            for await (const update of stream) {
+            for await (const providerUpdate of stream) {
               updateCount++;
+              // Same event schema as the main agent stream - mismatches end the test run
+              const update = parseAgentUpdate(providerUpdate);
               const updateType = update.type;
               
               // Log summary every 10 updates
@@ -187,12 +184,11 @@ export async function POST(req: Request) {
               }
 
               // Send update to client
-              const data = JSON.stringify(update);
-              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+              controller.enqueue(encoder.encode(formatSseEvent(update)));
             }
 
             clearTimeout(streamTimeout);
-            await stream.done;
+            await done;
             
             if (!streamClosed) {
               const duration = Date.now() - startTime;
@@ -5,6 +5,7 @@ import {
   Loader2,
   CheckCircle2,
   XCircle,
+  CircleSlash,
   Circle,
   Play,
   Sparkles,
@@ -12,8 +13,24 @@ import {
   Bot,
   ExternalLink,
   Send,
+  PauseCircle,
+  RotateCcw,
+  GitBranch,
+  GitMerge,
+  GitCommitHorizontal,
+  Shield,
+  ShieldCheck,
+  ShieldAlert,
+  ShieldBan,
+  Hand,
+  Check,
+  X,
+  ClipboardList,
+  Trash2,
+  History,
 } from "lucide-react";
-import type { ToolCall, AgentTask } from "@/lib/types";
+import { ACTIVE_TASK_STATUSES, type ToolCall, type AgentTask, type ApprovalDecision } from "@/lib/types";
+import { TaskChanges } from "./task-changes";
 
 // Tool emoji mapping
 const toolEmojis: Record<string, string> = {
@@ -35,20 +52,22 @@ const toolEmojis: Record<string, string> = {
 interface ToolCallDisplayProps {
   toolCall: ToolCall;
   isActive?: boolean;
+  clock?: number; // Replay time to measure running calls against, instead of the wall clock
 }
 
-const ToolCallDisplay = ({ toolCall, isActive }: ToolCallDisplayProps) => {
+const ToolCallDisplay = ({ toolCall, isActive, clock }: ToolCallDisplayProps) => {
   const emoji = toolEmojis[toolCall.type] || "🔧";
-  const [currentTime, setCurrentTime] = useState(() => Date.now());
+  const [wallTime, setWallTime] = useState(() => Date.now());
+  const currentTime = clock ?? wallTime;
   
-  // Update current time when active
+  // Tick the wall clock while active (replays move the clock themselves)
   useEffect(() => {
-    if (!isActive) return;
+    if (!isActive || clock !== undefined) return;
     const interval = setInterval(() => {
-      setCurrentTime(Date.now());
+      setWallTime(Date.now());
     }, 1000);
     return () => clearInterval(interval);
-  }, [isActive]);
+  }, [isActive, clock]);
   
   // Calculate duration and detect if stuck
   const duration = toolCall.endTime 
@@ -170,15 +189,37 @@ interface AgentViewProps {
   activeToolCalls: Set<string>;
   onSendMessage?: (taskId: string, message: string) => void;
   onKillSession?: (taskId: string, sessionId: string) => void;
+  onResumeTask?: (taskId: string) => void;
+  onApprovalDecision?: (taskId: string, decision: ApprovalDecision) => Promise<void>;
+  onWorktreeAction?: (taskId: string, action: "merge" | "cleanup") => Promise<void>;
+  onExecutePlan?: (taskId: string) => void;
+  onReplay?: (taskId: string) => void;
+  replayClock?: number; // Set while replaying: the recorded time the view is showing
 }
 
-export const AgentView = ({ task, activeToolCalls, onSendMessage, onKillSession }: AgentViewProps) => {
+export const AgentView = ({
+  task,
+  activeToolCalls,
+  onSendMessage,
+  onKillSession,
+  onResumeTask,
+  onApprovalDecision,
+  onWorktreeAction,
+  onExecutePlan,
+  onReplay,
+  replayClock,
+}: AgentViewProps) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [, setRefreshTrigger] = useState(0);
   const [inputMessage, setInputMessage] = useState("");
   const [isStuck, setIsStuck] = useState(false);
   const [stuckDuration, setStuckDuration] = useState(0);
   const [isKilling, setIsKilling] = useState(false);
+  const [worktreeBusy, setWorktreeBusy] = useState<"merge" | "cleanup" | null>(null);
+  const [worktreeError, setWorktreeError] = useState<string | null>(null);
+  const [view, setView] = useState<"chat" | "changes">("chat");
+  const [approvalBusy, setApprovalBusy] = useState<ApprovalDecision | null>(null);
+  const [approvalError, setApprovalError] = useState<string | null>(null);
 
   // Auto-scroll on new messages
   useEffect(() => {
@@ -196,9 +237,9 @@ export const AgentView = ({ task, activeToolCalls, onSendMessage, onKillSession
     return () => clearInterval(interval);
   }, [activeToolCalls.size]);
 
-  // Detect if agent is stuck (no updates for 10+ seconds while running)
+  // Detect if agent is stuck (no updates for 10+ seconds while running) - never in a replay
   useEffect(() => {
-    if (!task || task.status !== "running") {
+    if (!task || task.status !== "running" || replayClock !== undefined) {
       setIsStuck(false);
       setStuckDuration(0);
       return;
@@ -238,7 +279,7 @@ export const AgentView = ({ task, activeToolCalls, onSendMessage, onKillSession
     const interval = setInterval(checkStuck, 1000);
     
     return () => clearInterval(interval);
-  }, [task, task?.messages, task?.messages?.length]);
+  }, [task, task?.messages, task?.messages?.length, replayClock]);
 
   // Empty state
   if (!task) {
@@ -257,12 +298,16 @@ export const AgentView = ({ task, activeToolCalls, onSendMessage, onKillSession
     );
   }
 
-  const { messages, repoName, status, error } = task;
+  const { messages, repoName, status, error, worktree, verification, pendingApproval } = task;
+  const hasActiveWorktree = !!worktree && !worktree.removedAt;
+  const flaggedPolicyEntries = (task.policyLog || []).filter((entry) => entry.decision !== "allow");
 
   const handleOpenInCursor = () => {
     // Open the repo in Cursor using the cursor:// protocol
     // Add windowId parameter to force opening in a new window
-    const cursorUrl = `cursor://file/${task.repoPath}?windowId=_blank`;
+    // Tasks isolated in a worktree open their worktree checkout instead
+    const path = hasActiveWorktree ? worktree.workingDirectory : task.repoPath;
+    const cursorUrl = `cursor://file/${path}?windowId=_blank`;
     window.open(cursorUrl, "_blank");
   };
 
@@ -273,6 +318,38 @@ export const AgentView = ({ task, activeToolCalls, onSendMessage, onKillSession
     }
   };
 
+  const handleWorktreeAction = async (action: "merge" | "cleanup") => {
+    if (!onWorktreeAction || worktreeBusy) return;
+
+    setWorktreeBusy(action);
+    setWorktreeError(null);
+    try {
+      await onWorktreeAction(task.id, action);
+    } catch (worktreeActionError) {
+      setWorktreeError(
+        worktreeActionError instanceof Error ? worktreeActionError.message : "Worktree update failed"
+      );
+    } finally {
+      setWorktreeBusy(null);
+    }
+  };
+
+  const handleApprovalDecision = async (decision: ApprovalDecision) => {
+    if (!onApprovalDecision || approvalBusy) return;
+
+    setApprovalBusy(decision);
+    setApprovalError(null);
+    try {
+      await onApprovalDecision(task.id, decision);
+    } catch (approvalDecisionError) {
+      setApprovalError(
+        approvalDecisionError instanceof Error ? approvalDecisionError.message : "Approval failed"
+      );
+    } finally {
+      setApprovalBusy(null);
+    }
+  };
+
   const handleKillSession = async () => {
     if (!task?.sessionId || isKilling) return;
     
@@ -315,17 +392,51 @@ export const AgentView = ({ task, activeToolCalls, onSendMessage, onKillSession
             </p>
           </div>
           <div className="flex items-center gap-2">
-            {task.sessionId && (
+            {task.sessionId && replayClock === undefined && (
               <div className="flex items-center gap-1 text-[10px] text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-950/30 px-2 py-0.5 rounded border border-green-200 dark:border-green-900">
                 <div className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse" />
                 <span className="font-medium">Session Active</span>
               </div>
             )}
+            {task.mode === "plan" && (
+              <span className="flex items-center gap-1 text-[10px] text-sky-600 dark:text-sky-400 bg-sky-50 dark:bg-sky-950/30 px-2 py-0.5 rounded border border-sky-200 dark:border-sky-900">
+                <ClipboardList className="w-3 h-3" />
+                Plan only
+              </span>
+            )}
+            {task.commitSha && (
+              <span
+                className="flex items-center gap-1 text-[10px] font-mono text-violet-600 dark:text-violet-400 bg-violet-50 dark:bg-violet-950/30 px-2 py-0.5 rounded"
+                title={`Changes committed as ${task.commitSha}`}
+              >
+                <GitCommitHorizontal className="w-3 h-3" />
+                {task.commitSha.slice(0, 7)}
+              </span>
+            )}
+            {task.commitError && (
+              <span
+                className="text-[10px] text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30 px-2 py-0.5 rounded"
+                title={task.commitError}
+              >
+                Auto-commit failed
+              </span>
+            )}
             {task.tokenCount > 0 && (
               <span className="text-[10px] text-zinc-400 bg-zinc-100 dark:bg-zinc-800 px-2 py-0.5 rounded">
                 {task.tokenCount} tokens
               </span>
             )}
+            {onReplay && (status === "completed" || status === "failed" || status === "interrupted") && (
+              <button
+                type="button"
+                onClick={() => onReplay(task.id)}
+                className="flex items-center gap-1.5 px-2 py-1 text-[10px] font-medium text-zinc-600 dark:text-zinc-400 hover:text-violet-600 dark:hover:text-violet-400 bg-zinc-100 dark:bg-zinc-800 hover:bg-violet-50 dark:hover:bg-violet-950/30 rounded transition-colors"
+                aria-label="Replay task"
+              >
+                <History className="w-3 h-3" />
+                Replay
+              </button>
+            )}
             <button
               type="button"
               onClick={handleOpenInCursor}
@@ -368,6 +479,255 @@ export const AgentView = ({ task, activeToolCalls, onSendMessage, onKillSession
         </div>
       )}
 
+      {/* Interrupted by a server restart */}
+      {status === "interrupted" && (
+        <div className="m-4 p-3 bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="flex items-center gap-2 text-amber-600 dark:text-amber-400">
+                <PauseCircle className="w-4 h-4" />
+                <span className="text-xs font-medium">Task interrupted</span>
+              </div>
+              <p className="text-xs text-amber-700 dark:text-amber-300 mt-1">
+                The server restarted while this agent was running. Resume starts a new agent with the conversation so far.
+              </p>
+            </div>
+            {onResumeTask && (
+              <button
+                type="button"
+                onClick={() => onResumeTask(task.id)}
+                className="ml-3 flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/50 hover:bg-amber-200 dark:hover:bg-amber-800 border border-amber-300 dark:border-amber-700 rounded transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Resume
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Paused on a tool call the policy holds for approval */}
+      {status === "awaiting-approval" && pendingApproval && (
+        <div className="m-4 p-3 bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900 rounded-lg">
+          <div className="flex items-center gap-2 text-amber-600 dark:text-amber-400">
+            <Hand className="w-4 h-4" />
+            <span className="text-xs font-medium">
+              Approval needed {toolEmojis[pendingApproval.toolType] || "🔧"} {pendingApproval.toolType}
+            </span>
+          </div>
+          {pendingApproval.reason && (
+            <p className="text-xs text-amber-700 dark:text-amber-300 mt-1">{pendingApproval.reason}</p>
+          )}
+          <pre className="mt-2 p-2 text-[10px] font-mono whitespace-pre-wrap break-all bg-white dark:bg-zinc-900 border border-amber-200 dark:border-amber-900 rounded">
+            {pendingApproval.target}
+          </pre>
+          {pendingApproval.args && (
+            <details className="mt-1">
+              <summary className="text-[10px] text-amber-700 dark:text-amber-300 cursor-pointer">Arguments</summary>
+              <pre className="mt-1 p-2 text-[10px] font-mono whitespace-pre-wrap break-all bg-white dark:bg-zinc-900 border border-amber-200 dark:border-amber-900 rounded max-h-48 overflow-auto">
+                {JSON.stringify(pendingApproval.args, null, 2)}
+              </pre>
+            </details>
+          )}
+          {onApprovalDecision && (
+            <div className="flex items-center gap-2 mt-2">
+              <button
+                type="button"
+                onClick={() => handleApprovalDecision("approve")}
+                disabled={!!approvalBusy}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-950/30 hover:bg-green-100 dark:hover:bg-green-950/50 border border-green-200 dark:border-green-900 rounded transition-colors disabled:opacity-50"
+              >
+                {approvalBusy === "approve" ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                Approve
+              </button>
+              <button
+                type="button"
+                onClick={() => handleApprovalDecision("deny")}
+                disabled={!!approvalBusy}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30 hover:bg-red-100 dark:hover:bg-red-950/50 border border-red-200 dark:border-red-900 rounded transition-colors disabled:opacity-50"
+              >
+                {approvalBusy === "deny" ? <Loader2 className="w-3 h-3 animate-spin" /> : <X className="w-3 h-3" />}
+                Deny
+              </button>
+            </div>
+          )}
+          {approvalError && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-2">{approvalError}</p>
+          )}
+        </div>
+      )}
+
+      {/* Git Worktree */}
+      {worktree && (
+        <div className="mx-4 mt-4 p-3 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg">
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-violet-600 dark:text-violet-400">
+                <GitBranch className="w-4 h-4 shrink-0" />
+                <span className="text-xs font-medium font-mono truncate">{worktree.branch}</span>
+                {worktree.mergedAt && (
+                  <span className="text-[10px] text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-950/30 px-1.5 py-0.5 rounded">
+                    merged
+                  </span>
+                )}
+                {worktree.removedAt && (
+                  <span className="text-[10px] text-zinc-500 bg-zinc-100 dark:bg-zinc-800 px-1.5 py-0.5 rounded">
+                    removed
+                  </span>
+                )}
+              </div>
+              <p className="text-[10px] text-zinc-400 dark:text-zinc-500 truncate mt-1 font-mono">
+                🌿 {worktree.path}
+              </p>
+              {worktreeError && (
+                <p className="text-xs text-red-600 dark:text-red-400 mt-1">{worktreeError}</p>
+              )}
+            </div>
+            {hasActiveWorktree && onWorktreeAction && !ACTIVE_TASK_STATUSES.includes(status) && (
+              <div className="flex items-center gap-2 shrink-0">
+                {!worktree.mergedAt && (
+                  <button
+                    type="button"
+                    onClick={() => handleWorktreeAction("merge")}
+                    disabled={!!worktreeBusy}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-violet-700 dark:text-violet-300 bg-violet-50 dark:bg-violet-950/30 hover:bg-violet-100 dark:hover:bg-violet-950/50 border border-violet-200 dark:border-violet-900 rounded transition-colors disabled:opacity-50"
+                  >
+                    <GitMerge className="w-3 h-3" />
+                    {worktreeBusy === "merge" ? "Merging..." : "Merge"}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleWorktreeAction("cleanup")}
+                  disabled={!!worktreeBusy}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded transition-colors disabled:opacity-50"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  {worktreeBusy === "cleanup" ? "Removing..." : "Remove"}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Reviewed plan, ready to run for real */}
+      {task.mode === "plan" && task.plan && status === "completed" && (
+        <div className="mx-4 mt-4 p-3 bg-sky-50 dark:bg-sky-950/30 border border-sky-200 dark:border-sky-900 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="flex items-center gap-2 text-sky-600 dark:text-sky-400">
+                <ClipboardList className="w-4 h-4" />
+                <span className="text-xs font-medium">Plan ready for review</span>
+              </div>
+              <p className="text-xs text-sky-700 dark:text-sky-300 mt-1">
+                Nothing was changed. Executing starts a new task with this plan attached as context.
+              </p>
+            </div>
+            {onExecutePlan && (
+              <button
+                type="button"
+                onClick={() => onExecutePlan(task.id)}
+                className="ml-3 flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-sky-600 hover:bg-sky-700 rounded transition-colors"
+              >
+                <Play className="w-3 h-3" />
+                Execute this plan
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Post-task Verification */}
+      {verification && (
+        <div
+          className={`mx-4 mt-4 p-3 border rounded-lg ${
+            verification.status === "failed"
+              ? "bg-orange-50 dark:bg-orange-950/30 border-orange-200 dark:border-orange-900"
+              : "bg-white dark:bg-zinc-900 border-zinc-200 dark:border-zinc-800"
+          }`}
+        >
+          <div className="flex items-center gap-2 flex-wrap">
+            {verification.status === "running" ? (
+              <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+            ) : verification.status === "passed" ? (
+              <ShieldCheck className="w-4 h-4 text-green-500" />
+            ) : verification.status === "skipped" ? (
+              <Shield className="w-4 h-4 text-zinc-400" />
+            ) : (
+              <ShieldAlert className="w-4 h-4 text-orange-500" />
+            )}
+            <span className="text-xs font-medium">
+              {verification.status === "running"
+                ? "Verifying..."
+                : verification.status === "passed"
+                ? "Checks passed"
+                : verification.status === "skipped"
+                ? `Checks skipped: ${verification.skippedReason}`
+                : "Checks failed"}
+            </span>
+            {task.repairAttempts !== undefined && task.repairAttempts > 0 && (
+              <span className="text-[10px] text-zinc-500 dark:text-zinc-400">
+                after {task.repairAttempts} auto-repair attempt{task.repairAttempts !== 1 ? "s" : ""}
+              </span>
+            )}
+            {verification.steps.map((step) => (
+              <span
+                key={step.name}
+                className={`text-[10px] font-mono px-1.5 py-0.5 rounded ${
+                  step.status === "passed"
+                    ? "text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-950/30"
+                    : step.status === "failed"
+                    ? "text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30"
+                    : "text-zinc-500 bg-zinc-100 dark:bg-zinc-800"
+                }`}
+                title={step.exitCode !== undefined ? `${step.command} exited with ${step.exitCode}` : step.command}
+              >
+                {step.name}
+                {step.durationMs !== undefined && ` ${Math.round(step.durationMs / 1000)}s`}
+              </span>
+            ))}
+          </div>
+          {verification.status === "failed" && (
+            <p className="text-xs text-orange-700 dark:text-orange-300 mt-1">
+              The agent finished, but the project doesn&apos;t pass its own checks. See the terminal output for details.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Tool Policy - calls the policy denied or held for approval */}
+      {flaggedPolicyEntries.length > 0 && (
+        <div className="mx-4 mt-4 p-3 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg">
+          <div className="flex items-center gap-2">
+            <ShieldBan className="w-4 h-4 text-red-500" />
+            <span className="text-xs font-medium">Tool policy</span>
+            <span className="text-[10px] text-zinc-500 dark:text-zinc-400">
+              {flaggedPolicyEntries.length} flagged of {task.policyLog?.length} tool call
+              {task.policyLog?.length !== 1 ? "s" : ""}
+            </span>
+          </div>
+          <ul className="mt-2 space-y-1">
+            {flaggedPolicyEntries.slice(-5).map((entry) => (
+              <li key={`${entry.timestamp}-${entry.callId}`} className="flex items-start gap-2 text-[10px]">
+                <span
+                  className={`shrink-0 px-1.5 py-0.5 rounded font-medium ${
+                    entry.decision === "deny"
+                      ? "text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30"
+                      : "text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30"
+                  }`}
+                >
+                  {entry.decision === "deny" ? "denied" : "needs approval"}
+                </span>
+                <span className="font-mono break-all" title={entry.reason}>
+                  {entry.toolType}: {entry.target}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="m-4 p-3 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900 rounded-lg">
@@ -379,122 +739,147 @@ export const AgentView = ({ task, activeToolCalls, onSendMessage, onKillSession
         </div>
       )}
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
-        {messages.map((message) => (
-          <div key={message.id} className="space-y-2">
-            {message.role === "user" ? (
-              <div className="flex gap-2">
-                <div className="shrink-0 w-6 h-6 rounded-full bg-zinc-200 dark:bg-zinc-700 flex items-center justify-center">
-                  <User className="w-3 h-3 text-zinc-600 dark:text-zinc-300" />
-                </div>
-                <div className="flex-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg p-3">
-                  <div className="max-w-full overflow-hidden">
-                    <pre className="text-xs whitespace-pre-wrap max-w-full wrap-break-word font-sans">
-                      {message.content}
-                    </pre>
+      {/* Chat / Changes Tabs - only tasks started in a git repo have a diff to review */}
+      {task.baseCommit && (
+        <div className="flex items-center gap-1 px-4 pt-3 shrink-0">
+          {(["chat", "changes"] as const).map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => setView(tab)}
+              className={`px-3 py-1 text-xs font-medium rounded capitalize transition-colors ${
+                view === tab
+                  ? "bg-violet-100 dark:bg-violet-950/50 text-violet-700 dark:text-violet-300"
+                  : "text-zinc-500 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+              }`}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {task.baseCommit && view === "changes" ? (
+        <TaskChanges taskId={task.id} status={status} />
+      ) : (
+        // Messages
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
+          {messages.map((message) => (
+            <div key={message.id} className="space-y-2">
+              {message.role === "user" ? (
+                <div className="flex gap-2">
+                  <div className="shrink-0 w-6 h-6 rounded-full bg-zinc-200 dark:bg-zinc-700 flex items-center justify-center">
+                    <User className="w-3 h-3 text-zinc-600 dark:text-zinc-300" />
+                  </div>
+                  <div className="flex-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg p-3">
+                    <div className="max-w-full overflow-hidden">
+                      <pre className="text-xs whitespace-pre-wrap max-w-full wrap-break-word font-sans">
+                        {message.content}
+                      </pre>
+                    </div>
                   </div>
                 </div>
-              </div>
-            ) : (
-              <div className="flex gap-2">
-                <div className="shrink-0 w-6 h-6 rounded-full bg-linear-to-br from-violet-500 to-purple-600 flex items-center justify-center">
-                  <Bot className="w-3 h-3 text-white" />
-                </div>
-                <div className="flex-1 space-y-2">
-                  {/* Thinking */}
-                  {message.metadata?.thinking && (
-                    <div className="bg-purple-50 dark:bg-purple-950/30 border border-purple-200 dark:border-purple-900 rounded-lg p-3">
-                      <div className="flex items-center gap-1.5 text-[10px] text-purple-600 dark:text-purple-400 font-medium mb-1">
-                        <Sparkles className="w-3 h-3" />
-                        THINKING
-                      </div>
-                      <div className="max-w-full overflow-hidden">
-                        <pre className="text-[10px] text-purple-900 dark:text-purple-100 whitespace-pre-wrap font-mono leading-relaxed max-h-48 overflow-auto max-w-full wrap-break-word">
-                          {message.metadata?.thinking}
-                        </pre>
+              ) : (
+                <div className="flex gap-2">
+                  <div className="shrink-0 w-6 h-6 rounded-full bg-linear-to-br from-violet-500 to-purple-600 flex items-center justify-center">
+                    <Bot className="w-3 h-3 text-white" />
+                  </div>
+                  <div className="flex-1 space-y-2">
+                    {/* Thinking */}
+                    {message.metadata?.thinking && (
+                      <div className="bg-purple-50 dark:bg-purple-950/30 border border-purple-200 dark:border-purple-900 rounded-lg p-3">
+                        <div className="flex items-center gap-1.5 text-[10px] text-purple-600 dark:text-purple-400 font-medium mb-1">
+                          <Sparkles className="w-3 h-3" />
+                          THINKING
+                        </div>
+                        <div className="max-w-full overflow-hidden">
+                          <pre className="text-[10px] text-purple-900 dark:text-purple-100 whitespace-pre-wrap font-mono leading-relaxed max-h-48 overflow-auto max-w-full wrap-break-word">
+                            {message.metadata?.thinking}
+                          </pre>
+                        </div>
                       </div>
-                    </div>
-                  )}
+                    )}
 
-                  {/* Tool Calls */}
-                  {message.metadata?.toolCalls && Object.keys(message.metadata.toolCalls).length > 0 && (
-                    <div className="space-y-1.5">
-                      <div className="text-[10px] text-zinc-500 font-medium flex items-center gap-1">
-                        🔧 TOOLS ({Object.keys(message.metadata.toolCalls).length})
-                      </div>
-                      {Object.entries(message.metadata.toolCalls).map(
-                        ([callId, toolCall]) => (
-                          <ToolCallDisplay
-                            key={callId}
-                            toolCall={toolCall}
-                            isActive={
-                              message.isStreaming && activeToolCalls.has(callId)
-                            }
-                          />
-                        )
-                      )}
-                    </div>
-                  )}
-
-                  {/* Response */}
-                  {message.content && (
-                    <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg p-3 shadow-sm">
-                      <div className="max-w-full overflow-hidden">
-                        <pre className="text-xs whitespace-pre-wrap max-w-full wrap-break-word font-sans">
-                          {message.content}
-                          {message.isStreaming && (
-                            <span className="inline-block w-1.5 h-3 bg-violet-500 ml-0.5 animate-pulse" />
-                          )}
-                        </pre>
+                    {/* Tool Calls */}
+                    {message.metadata?.toolCalls && Object.keys(message.metadata.toolCalls).length > 0 && (
+                      <div className="space-y-1.5">
+                        <div className="text-[10px] text-zinc-500 font-medium flex items-center gap-1">
+                          🔧 TOOLS ({Object.keys(message.metadata.toolCalls).length})
+                        </div>
+                        {Object.entries(message.metadata.toolCalls).map(
+                          ([callId, toolCall]) => (
+                            <ToolCallDisplay
+                              key={callId}
+                              toolCall={toolCall}
+                              isActive={
+                                message.isStreaming && activeToolCalls.has(callId)
+                              }
+                              clock={replayClock}
+                            />
+                          )
+                        )}
                       </div>
-                    </div>
-                  )}
+                    )}
 
-                  {/* Summaries */}
-                  {message.metadata?.summaries && message.metadata.summaries.length > 0 && (
-                    <div className="bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900 rounded-lg p-3">
-                      <div className="text-[10px] text-amber-600 dark:text-amber-400 font-medium mb-1">
-                        📝 SUMMARY
-                      </div>
-                      <div className="space-y-1">
-                        {message.metadata.summaries.map((summary, idx) => (
-                          <div
-                            key={idx}
-                            className="max-w-full overflow-hidden"
-                          >
-                            <pre className="text-[10px] text-amber-900 dark:text-amber-100 whitespace-pre-wrap max-w-full wrap-break-word font-sans">
-                              {summary}
-                            </pre>
-                          </div>
-                        ))}
+                    {/* Response */}
+                    {message.content && (
+                      <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg p-3 shadow-sm">
+                        <div className="max-w-full overflow-hidden">
+                          <pre className="text-xs whitespace-pre-wrap max-w-full wrap-break-word font-sans">
+                            {message.content}
+                            {message.isStreaming && (
+                              <span className="inline-block w-1.5 h-3 bg-violet-500 ml-0.5 animate-pulse" />
+                            )}
+                          </pre>
+                        </div>
                       </div>
-                    </div>
-                  )}
-
-                  {/* Streaming indicator */}
-                  {message.isStreaming &&
-                    !message.content &&
-                    !message.metadata?.thinking &&
-                    Object.keys(message.metadata?.toolCalls || {}).length === 0 && (
-                      <div className="flex items-center gap-1.5 text-zinc-500">
-                        <Loader2 className="w-3 h-3 animate-spin" />
-                        <span className="text-[10px]">
-                          Agent is thinking...
-                        </span>
+                    )}
+
+                    {/* Summaries */}
+                    {message.metadata?.summaries && message.metadata.summaries.length > 0 && (
+                      <div className="bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900 rounded-lg p-3">
+                        <div className="text-[10px] text-amber-600 dark:text-amber-400 font-medium mb-1">
+                          📝 SUMMARY
+                        </div>
+                        <div className="space-y-1">
+                          {message.metadata.summaries.map((summary, idx) => (
+                            <div
+                              key={idx}
+                              className="max-w-full overflow-hidden"
+                            >
+                              <pre className="text-[10px] text-amber-900 dark:text-amber-100 whitespace-pre-wrap max-w-full wrap-break-word font-sans">
+                                {summary}
+                              </pre>
+                            </div>
+                          ))}
+                        </div>
                       </div>
                     )}
+
+                    {/* Streaming indicator */}
+                    {message.isStreaming &&
+                      !message.content &&
+                      !message.metadata?.thinking &&
+                      Object.keys(message.metadata?.toolCalls || {}).length === 0 && (
+                        <div className="flex items-center gap-1.5 text-zinc-500">
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                          <span className="text-[10px]">
+                            Agent is thinking...
+                          </span>
+                        </div>
+                      )}
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
-        ))}
+              )}
+            </div>
+          ))}
 
-        <div ref={messagesEndRef} />
-      </div>
+          <div ref={messagesEndRef} />
+        </div>
+      )}
 
       {/* Chat Input - Show when there's an active session */}
-      {task && task.sessionId && onSendMessage && (
+      {task && task.sessionId && onSendMessage && view === "chat" && (
         <div className="border-t border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 shrink-0">
           {/* Stuck Warning */}
           {isStuck && (
@@ -637,5 +1022,11 @@ const TaskStatusIcon = ({ status }: TaskStatusIconProps) => {
       return <CheckCircle2 className="w-4 h-4 text-green-500" />;
     case "failed":
       return <XCircle className="w-4 h-4 text-red-500" />;
+    case "cancelled":
+      return <CircleSlash className="w-4 h-4 text-zinc-400" />;
+    case "interrupted":
+      return <PauseCircle className="w-4 h-4 text-amber-500" />;
+    case "awaiting-approval":
+      return <Hand className="w-4 h-4 text-amber-500" />;
   }
 };
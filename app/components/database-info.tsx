@@ -5,24 +5,13 @@ import { useState, useEffect } from "react";
 
 interface DbInfo {
   path: string;
-  files: {
-    tasks: string;
-    repos: string;
-  };
+  files: Record<string, string>; // Label -> path, depending on the storage backend
   size: {
     bytes: number;
     mb: string;
-    breakdown: {
-      tasks: string;
-      repos: string;
-    };
-  };
-  tables: {
-    tasks: number;
-    messages: number;
-    tool_calls: number;
-    scanned_repos: number;
+    breakdown: Record<string, string>;
   };
+  tables: Record<string, number>;
   tasksByStatus: Record<string, number>;
   recentTasks: Array<{
     id: string;
@@ -243,12 +232,11 @@ export const DatabaseInfo = () => {
                           <div>
                             <p className="font-medium mb-1">Files:</p>
                             <div className="space-y-1">
-                              <code className="block p-1.5 bg-muted rounded text-[10px] break-all">
-                                📄 {dbInfo.files.tasks.split('/').pop()} ({dbInfo.size.breakdown.tasks})
-                              </code>
-                              <code className="block p-1.5 bg-muted rounded text-[10px] break-all">
-                                📄 {dbInfo.files.repos.split('/').pop()} ({dbInfo.size.breakdown.repos})
-                              </code>
+                              {Object.entries(dbInfo.files).map(([label, file]) => (
+                                <code key={label} className="block p-1.5 bg-muted rounded text-[10px] break-all">
+                                  📄 {file.split('/').pop()} ({dbInfo.size.breakdown[label]})
+                                </code>
+                              ))}
                             </div>
                           </div>
                         </div>
@@ -404,7 +392,7 @@ export const DatabaseInfo = () => {
                         </div>
                         
                         <div>
-                          <p className="font-medium mb-2">Data Files</p>
+                          <p className="font-medium mb-2">Files &amp; Tables</p>
                           <div className="space-y-2">
                             {dbInfo.schema.files.map((file) => (
                               <div
@@ -10,9 +10,14 @@ import {
   FolderGit2,
   CheckSquare,
   Square,
+  GitBranch,
+  Boxes,
 } from "lucide-react";
-import type { RepoInfo, TaskAction } from "@/lib/types";
+import type { RepoGitInfo, RepoInfo, TaskAction } from "@/lib/types";
 import { actionPrompts } from "@/app/page";
+import { getFrameworkVersion } from "@/lib/repo-versions";
+import { getTagLabel } from "@/lib/frameworks";
+import { getRepoLanguage, LANGUAGE_BADGES, LANGUAGE_LABELS } from "@/lib/ecosystems/info";
 
 interface RepoCardProps {
   repo: RepoInfo;
@@ -23,20 +28,44 @@ interface RepoCardProps {
 
 const FRAMEWORK_COLORS: Record<string, string> = {
   nextjs: "bg-black text-white dark:bg-white dark:text-black",
-  react: "bg-cyan-500 text-white",
-  vue: "bg-emerald-500 text-white",
+  nuxt: "bg-emerald-600 text-white",
+  remix: "bg-zinc-800 text-white",
+  astro: "bg-fuchsia-600 text-white",
+  sveltekit: "bg-orange-600 text-white",
+  solidstart: "bg-sky-700 text-white",
+  expo: "bg-indigo-900 text-white",
+  electron: "bg-slate-600 text-white",
+  nestjs: "bg-rose-600 text-white",
   angular: "bg-red-500 text-white",
+  "react-native": "bg-cyan-700 text-white",
+  vue: "bg-emerald-500 text-white",
   svelte: "bg-orange-500 text-white",
+  solid: "bg-sky-600 text-white",
+  react: "bg-cyan-500 text-white",
+  fastify: "bg-zinc-900 text-white",
+  express: "bg-zinc-600 text-white",
+  django: "bg-green-800 text-white",
+  fastapi: "bg-teal-600 text-white",
+  gin: "bg-sky-500 text-white",
+  axum: "bg-amber-700 text-white",
+  spring: "bg-lime-600 text-white",
   other: "bg-zinc-500 text-white",
 };
 
-const FRAMEWORK_LABELS: Record<string, string> = {
-  nextjs: "Next.js",
-  react: "React",
-  vue: "Vue",
-  angular: "Angular",
-  svelte: "Svelte",
-  other: "Other",
+const WORKSPACE_TOOL_LABELS: Record<string, string> = {
+  pnpm: "pnpm",
+  workspaces: "workspaces",
+  turbo: "Turborepo",
+  nx: "Nx",
+};
+
+// "3d ago", "5mo ago" - rough is fine for spotting abandoned repos
+const formatAge = (timestamp: number) => {
+  const days = Math.floor((Date.now() - timestamp) / (24 * 60 * 60 * 1000));
+  if (days < 1) return "today";
+  if (days < 30) return `${days}d ago`;
+  if (days < 365) return `${Math.floor(days / 30)}mo ago`;
+  return `${Math.floor(days / 365)}y ago`;
 };
 
 export const RepoCard = ({
@@ -75,6 +104,9 @@ export const RepoCard = ({
     }
   };
 
+  const frameworkVersion = getFrameworkVersion(repo);
+  const language = getRepoLanguage(repo);
+
   // Truncate path for display
   const displayPath = repo.path.replace(process.env.HOME || "~", "~");
   const shortPath =
@@ -117,6 +149,7 @@ export const RepoCard = ({
           >
             {shortPath}
           </p>
+          {repo.git && <GitSummary git={repo.git} />}
         </div>
       </div>
 
@@ -128,23 +161,65 @@ export const RepoCard = ({
               FRAMEWORK_COLORS[repo.framework] || FRAMEWORK_COLORS.other
             }`}
           >
-            {FRAMEWORK_LABELS[repo.framework] || repo.framework}
-            {repo.frameworkVersion && (
-              <span className="ml-1 opacity-75">
-                {repo.frameworkVersion.replace("^", "")}
+            {getTagLabel(repo.framework)}
+            {frameworkVersion && (
+              <span
+                className="ml-1 opacity-75"
+                title={
+                  repo.frameworkInstalledVersion
+                    ? `Installed ${repo.frameworkInstalledVersion} (package.json: ${repo.frameworkVersion})`
+                    : repo.ecosystem && repo.ecosystem !== "node"
+                      ? `Declared: ${repo.frameworkVersion}`
+                      : `package.json: ${repo.frameworkVersion} (no lockfile)`
+                }
+              >
+                {frameworkVersion}
               </span>
             )}
           </span>
         )}
         <span
-          className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${
-            repo.hasTypescript
-              ? "bg-blue-500 text-white"
-              : "bg-yellow-500 text-black"
-          }`}
+          className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${LANGUAGE_BADGES[language].className}`}
+          title={LANGUAGE_LABELS[language]}
         >
-          {repo.hasTypescript ? "TS" : "JS"}
+          {LANGUAGE_BADGES[language].label}
         </span>
+        {repo.tags
+          ?.filter((tag) => tag.id !== repo.framework)
+          .map((tag) => (
+            <span
+              key={tag.id}
+              className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400"
+              title={`${tag.package} ${repo.installedVersions?.[tag.package] ?? tag.version}`}
+            >
+              {tag.label}
+            </span>
+          ))}
+        {repo.packageManager && (
+          <span
+            className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400"
+            title={
+              repo.lockfile ||
+              (repo.ecosystem && repo.ecosystem !== "node"
+                ? "From the project's manifests"
+                : "From package.json's packageManager field")
+            }
+          >
+            {repo.packageManager}
+          </span>
+        )}
+        {repo.workspace && (
+          <span
+            className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium rounded bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300"
+            title={repo.workspace.patterns.join("\n") || "Every package below this directory"}
+          >
+            <Boxes className="w-3 h-3" />
+            Monorepo
+            <span className="opacity-75">
+              {repo.workspace.tools.map((tool) => WORKSPACE_TOOL_LABELS[tool] || tool).join(" + ")}
+            </span>
+          </span>
+        )}
       </div>
 
       {/* Custom Prompt Input */}
@@ -193,7 +268,7 @@ export const RepoCard = ({
           label="TS"
           title={"Convert to TypeScript"}
           onClick={() => handleAction("upgrade-typescript")}
-          disabled={repo.hasTypescript}
+          disabled={language !== "javascript"}
         />
         <ActionButton
           icon={<ArrowUpCircle className="w-3 h-3" />}
@@ -226,6 +301,29 @@ export const RepoCard = ({
   );
 };
 
+const GitSummary = ({ git }: { git: RepoGitInfo }) => (
+  <div
+    className="flex items-center gap-1.5 mt-0.5 text-[10px] text-zinc-500 dark:text-zinc-400 min-w-0"
+    title={[git.remoteUrl, git.upstream && `tracking ${git.upstream}`].filter(Boolean).join("\n") || "No remote"}
+  >
+    <GitBranch className="w-3 h-3 shrink-0" />
+    <span className="font-mono truncate">{git.branch ?? "detached"}</span>
+    <span
+      className={git.isDirty ? "text-amber-600 dark:text-amber-400" : "text-emerald-600 dark:text-emerald-400"}
+    >
+      {git.isDirty ? "dirty" : "clean"}
+    </span>
+    {!!git.ahead && <span>↑{git.ahead}</span>}
+    {!!git.behind && <span>↓{git.behind}</span>}
+    {git.lastCommitDate && (
+      <span className="truncate" title={new Date(git.lastCommitDate).toLocaleString()}>
+        · {formatAge(git.lastCommitDate)}
+        {git.lastCommitAuthor && ` by ${git.lastCommitAuthor}`}
+      </span>
+    )}
+  </div>
+);
+
 interface ActionButtonProps {
   icon: React.ReactNode;
   label: string;
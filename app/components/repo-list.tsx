@@ -14,23 +14,51 @@ import {
   Package,
   MessageSquare,
   Search,
+  GitBranch,
+  ChevronRight,
+  ChevronDown,
+  Wrench,
+  ClipboardList,
 } from "lucide-react";
-import type { RepoInfo, TaskAction } from "@/lib/types";
+import type { RepoInfo, RepoTagKind, TaskAction } from "@/lib/types";
 import { RepoCard } from "./repo-card";
+import { getFrameworkVersion } from "@/lib/repo-versions";
+import { getRepoTagIds, getTagLabel, TAG_KIND_LABELS } from "@/lib/frameworks";
+import { getRepoLanguage, LANGUAGE_LABELS } from "@/lib/ecosystems/info";
 import { actionPrompts } from "@/app/page";
 
+// No commits for this long and a repo counts as stale
+const STALE_AFTER_MS = 180 * 24 * 60 * 60 * 1000;
+
+// Git state filters; a repo passes if it matches any of the selected ones
+export const GIT_FILTERS: { value: string; label: string; matches: (repo: RepoInfo) => boolean }[] = [
+  { value: "clean", label: "Clean", matches: (repo) => !!repo.git && !repo.git.isDirty },
+  { value: "dirty", label: "Dirty", matches: (repo) => !!repo.git?.isDirty },
+  { value: "unpushed", label: "Unpushed", matches: (repo) => !!repo.git?.ahead },
+  { value: "behind", label: "Behind upstream", matches: (repo) => !!repo.git?.behind },
+  {
+    value: "stale",
+    label: "Stale (6mo+)",
+    matches: (repo) =>
+      !!repo.git?.lastCommitDate && Date.now() - repo.git.lastCommitDate > STALE_AFTER_MS,
+  },
+  { value: "no-git", label: "Not in git", matches: (repo) => repo.git === null },
+];
+
 interface RepoListProps {
   repos: RepoInfo[];
   filteredRepos: RepoInfo[];
   scannedPath: string | null;
   error: string | null;
   onAction: (repo: RepoInfo, action: TaskAction, customPrompt?: string) => void;
-  frameworkFilter: string[];
-  onFrameworkFilterChange: (value: string[]) => void;
+  tagFilter: string[];
+  onTagFilterChange: (value: string[]) => void;
   versionFilter: string[];
   onVersionFilterChange: (value: string[]) => void;
-  typescriptFilter: string[];
-  onTypescriptFilterChange: (value: string[]) => void;
+  languageFilter: string[];
+  onLanguageFilterChange: (value: string[]) => void;
+  gitFilter: string[];
+  onGitFilterChange: (value: string[]) => void;
   searchQuery: string;
   onSearchQueryChange: (value: string) => void;
   selectedRepos: Set<string>;
@@ -38,6 +66,12 @@ interface RepoListProps {
   onSelectAll: () => void;
   onClearSelection: () => void;
   onBatchAction: (action: TaskAction, customPrompt?: string) => void;
+  useWorktree: boolean;
+  onUseWorktreeChange: (value: boolean) => void;
+  autoRepair: boolean;
+  onAutoRepairChange: (value: boolean) => void;
+  planMode: boolean;
+  onPlanModeChange: (value: boolean) => void;
 }
 
 export const RepoList = ({
@@ -46,12 +80,14 @@ export const RepoList = ({
   scannedPath,
   error,
   onAction,
-  frameworkFilter,
-  onFrameworkFilterChange,
+  tagFilter,
+  onTagFilterChange,
   versionFilter,
   onVersionFilterChange,
-  typescriptFilter,
-  onTypescriptFilterChange,
+  languageFilter,
+  onLanguageFilterChange,
+  gitFilter,
+  onGitFilterChange,
   searchQuery,
   onSearchQueryChange,
   selectedRepos,
@@ -59,24 +95,48 @@ export const RepoList = ({
   onSelectAll,
   onClearSelection,
   onBatchAction,
+  useWorktree,
+  onUseWorktreeChange,
+  autoRepair,
+  onAutoRepairChange,
+  planMode,
+  onPlanModeChange,
 }: RepoListProps) => {
   const [showFilters, setShowFilters] = useState(false);
   const [showBatchCustomInput, setShowBatchCustomInput] = useState(false);
   const [batchCustomPrompt, setBatchCustomPrompt] = useState("");
+  const [expandedWorkspaces, setExpandedWorkspaces] = useState<Set<string>>(new Set());
 
-  // Extract unique frameworks and versions from scanned repos
-  const availableFrameworks = Array.from(
-    new Set(
-      repos
-        .map((r) => r.framework)
-        .filter((f): f is NonNullable<typeof f> => f !== null)
-    )
-  ).sort();
+  // Extract the tags found across scanned repos, by kind
+  const tagKinds = new Map<string, RepoTagKind>();
+  for (const repo of repos) {
+    for (const tag of repo.tags ?? []) tagKinds.set(tag.id, tag.kind);
+    if (!repo.tags && repo.framework) tagKinds.set(repo.framework, "framework");
+  }
+  const tagsByKind = (Object.keys(TAG_KIND_LABELS) as RepoTagKind[])
+    .map((kind) => ({
+      kind,
+      ids: Array.from(tagKinds)
+        .filter(([, k]) => k === kind)
+        .map(([id]) => id)
+        .sort((a, b) => getTagLabel(a).localeCompare(getTagLabel(b))),
+    }))
+    .filter(({ ids }) => ids.length > 0);
+
+  // Languages present in the scan, in LANGUAGE_LABELS order
+  const languageCounts = repos.reduce<Record<string, number>>((acc, repo) => {
+    const language = getRepoLanguage(repo);
+    acc[language] = (acc[language] || 0) + 1;
+    return acc;
+  }, {});
+  const availableLanguages = Object.keys(LANGUAGE_LABELS).filter(
+    (language) => languageCounts[language] || languageFilter.includes(language)
+  ) as (keyof typeof LANGUAGE_LABELS)[];
 
   // Group versions by framework
   const versionsByFramework = repos.reduce<Record<string, Set<string>>>((acc, repo) => {
-    if (repo.framework && repo.frameworkVersion) {
-      const version = repo.frameworkVersion.replace("^", "").replace("~", "");
+    const version = getFrameworkVersion(repo);
+    if (repo.framework && version) {
       if (!acc[repo.framework]) {
         acc[repo.framework] = new Set();
       }
@@ -97,18 +157,6 @@ export const RepoList = ({
     return acc;
   }, {});
 
-  // Get framework label with proper formatting
-  const getFrameworkLabel = (framework: string): string => {
-    const labels: Record<string, string> = {
-      nextjs: "Next.js",
-      react: "React",
-      vue: "Vue",
-      angular: "Angular",
-      svelte: "Svelte",
-      other: "Other",
-    };
-    return labels[framework] || framework.charAt(0).toUpperCase() + framework.slice(1);
-  };
   // Error state
   if (error) {
     return (
@@ -168,14 +216,15 @@ export const RepoList = ({
     }
   };
 
-  const activeFilterCount = versionFilter.length + typescriptFilter.length;
+  const activeFilterCount =
+    tagFilter.length + versionFilter.length + languageFilter.length + gitFilter.length;
 
   // Toggle functions for multi-select
-  const toggleFramework = (fw: string) => {
-    if (frameworkFilter.includes(fw)) {
-      onFrameworkFilterChange(frameworkFilter.filter((f) => f !== fw));
+  const toggleTag = (id: string) => {
+    if (tagFilter.includes(id)) {
+      onTagFilterChange(tagFilter.filter((t) => t !== id));
     } else {
-      onFrameworkFilterChange([...frameworkFilter, fw]);
+      onTagFilterChange([...tagFilter, id]);
     }
   };
 
@@ -188,10 +237,18 @@ export const RepoList = ({
   };
 
   const toggleLanguage = (lang: string) => {
-    if (typescriptFilter.includes(lang)) {
-      onTypescriptFilterChange(typescriptFilter.filter((l) => l !== lang));
+    if (languageFilter.includes(lang)) {
+      onLanguageFilterChange(languageFilter.filter((l) => l !== lang));
+    } else {
+      onLanguageFilterChange([...languageFilter, lang]);
+    }
+  };
+
+  const toggleGitFilter = (value: string) => {
+    if (gitFilter.includes(value)) {
+      onGitFilterChange(gitFilter.filter((g) => g !== value));
     } else {
-      onTypescriptFilterChange([...typescriptFilter, lang]);
+      onGitFilterChange([...gitFilter, value]);
     }
   };
 
@@ -214,6 +271,71 @@ export const RepoList = ({
     }
   };
 
+  const toggleWorkspace = (rootPath: string) => {
+    setExpandedWorkspaces((prev) => {
+      const next = new Set(prev);
+      if (next.has(rootPath)) {
+        next.delete(rootPath);
+      } else {
+        next.add(rootPath);
+      }
+      return next;
+    });
+  };
+
+  // Workspace packages are listed under their monorepo root, unless the filters hide the root
+  const shownPaths = new Set(filteredRepos.map((r) => r.path));
+  const membersByRoot = filteredRepos.reduce<Record<string, RepoInfo[]>>((acc, repo) => {
+    if (repo.workspaceRoot && shownPaths.has(repo.workspaceRoot)) {
+      (acc[repo.workspaceRoot] ||= []).push(repo);
+    }
+    return acc;
+  }, {});
+  const topLevelRepos = filteredRepos.filter(
+    (r) => !r.workspaceRoot || !shownPaths.has(r.workspaceRoot)
+  );
+
+  // The root's card runs actions on the whole monorepo, each package's card on just that package
+  const renderRepo = (repo: RepoInfo): React.ReactNode => {
+    const card = (
+      <RepoCard
+        key={repo.path}
+        repo={repo}
+        onAction={onAction}
+        isSelected={selectedRepos.has(repo.path)}
+        onToggleSelection={onToggleSelection}
+      />
+    );
+    const members = membersByRoot[repo.path];
+    if (!members) return card;
+
+    const isExpanded = expandedWorkspaces.has(repo.path);
+    const selectedCount = members.filter((m) => selectedRepos.has(m.path)).length;
+    return (
+      <div key={repo.path} className="space-y-1">
+        {card}
+        <button
+          type="button"
+          onClick={() => toggleWorkspace(repo.path)}
+          className="flex items-center gap-1 px-1 text-[10px] font-medium text-zinc-600 dark:text-zinc-400 hover:text-violet-600 dark:hover:text-violet-400 transition-colors"
+          aria-label={`Toggle packages of ${repo.name}`}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          {members.length} package{members.length !== 1 ? "s" : ""}
+          {selectedCount > 0 && (
+            <span className="text-violet-600 dark:text-violet-400">({selectedCount} selected)</span>
+          )}
+        </button>
+        {isExpanded && (
+          <div className="ml-3 pl-2 border-l border-zinc-200 dark:border-zinc-800 space-y-2">
+            {members.map(renderRepo)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   // Repos list
   return (
     <div className="flex-1 flex flex-col overflow-hidden">
@@ -297,6 +419,31 @@ export const RepoList = ({
               </button>
             </div>
           </div>
+
+          {/* Run Options for new tasks */}
+          <div className="flex flex-col gap-1">
+            <OptionToggle
+              icon={<ClipboardList className="w-3 h-3" />}
+              label="Plan only (dry run)"
+              legend="The agent investigates read-only and returns a plan you can review and execute"
+              checked={planMode}
+              onChange={onPlanModeChange}
+            />
+            <OptionToggle
+              icon={<GitBranch className="w-3 h-3" />}
+              label="Isolate tasks in git worktrees"
+              legend="Run new tasks in their own git worktree on an agent/* branch"
+              checked={useWorktree}
+              onChange={onUseWorktreeChange}
+            />
+            <OptionToggle
+              icon={<Wrench className="w-3 h-3" />}
+              label="Auto-repair failed checks"
+              legend="When build/lint/test fail after a task, send the errors back to the agent until they pass"
+              checked={autoRepair}
+              onChange={onAutoRepairChange}
+            />
+          </div>
         </div>
       </div>
 
@@ -327,13 +474,13 @@ export const RepoList = ({
                       {frameworkBadges[framework] && (
                         <img
                           src={frameworkBadges[framework]}
-                          alt={`${getFrameworkLabel(framework)} badge`}
+                          alt={`${getTagLabel(framework)} badge`}
                           className="h-4"
                         />
                       )}
                       {!frameworkBadges[framework] && (
                         <span className="text-[10px] font-medium text-zinc-600 dark:text-zinc-400">
-                          {getFrameworkLabel(framework)}
+                          {getTagLabel(framework)}
                         </span>
                       )}
                       <button
@@ -344,7 +491,7 @@ export const RepoList = ({
                             ? "text-violet-600 dark:text-violet-400"
                             : "text-zinc-500 dark:text-zinc-400 hover:text-violet-600 dark:hover:text-violet-400"
                         }`}
-                        aria-label={`Toggle all ${getFrameworkLabel(framework)} versions`}
+                        aria-label={`Toggle all ${getTagLabel(framework)} versions`}
                       >
                         {allSelected ? "Deselect All" : "Select All"}
                       </button>
@@ -354,7 +501,7 @@ export const RepoList = ({
                         const count = repos.filter(
                           (r) =>
                             r.framework === framework &&
-                            r.frameworkVersion?.replace("^", "").replace("~", "") === version
+                            getFrameworkVersion(r) === version
                         ).length;
                         const isActive = versionFilter.includes(version);
                         return (
@@ -367,7 +514,7 @@ export const RepoList = ({
                                 ? "bg-violet-500 text-white"
                                 : "bg-white dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 border border-zinc-200 dark:border-zinc-700 hover:border-violet-400 dark:hover:border-violet-600"
                             }`}
-                            aria-label={`Filter by ${getFrameworkLabel(framework)} version ${version}`}
+                            aria-label={`Filter by ${getTagLabel(framework)} version ${version}`}
                           >
                             v{version} ({count})
                           </button>
@@ -378,36 +525,81 @@ export const RepoList = ({
                 );
               })}
 
+              {/* Tag Capsules (framework, runtime, bundler, test runner) */}
+              {tagsByKind.map(({ kind, ids }) => (
+                <div key={kind}>
+                  <label className="text-[10px] font-medium text-zinc-600 dark:text-zinc-400 block mb-1.5">
+                    {TAG_KIND_LABELS[kind]}
+                  </label>
+                  <div className="flex flex-wrap gap-1">
+                    {ids.map((id) => (
+                      <button
+                        key={id}
+                        type="button"
+                        onClick={() => toggleTag(id)}
+                        className={`px-2 py-0.5 text-[10px] font-medium rounded-full transition-colors ${
+                          tagFilter.includes(id)
+                            ? "bg-violet-500 text-white"
+                            : "bg-white dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 border border-zinc-200 dark:border-zinc-700 hover:border-violet-400 dark:hover:border-violet-600"
+                        }`}
+                        aria-label={`Filter by ${getTagLabel(id)}`}
+                      >
+                        {getTagLabel(id)} ({repos.filter((r) => getRepoTagIds(r).includes(id)).length})
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
               {/* Language Capsules */}
               <div>
                 <label className="text-[10px] font-medium text-zinc-600 dark:text-zinc-400 block mb-1.5">
                   Languages
                 </label>
                 <div className="flex flex-wrap gap-1">
-                  <button
-                    type="button"
-                    onClick={() => toggleLanguage("typescript")}
-                    className={`px-2 py-0.5 text-[10px] font-medium rounded-full transition-colors ${
-                      typescriptFilter.includes("typescript")
-                        ? "bg-blue-500 text-white"
-                        : "bg-white dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 border border-zinc-200 dark:border-zinc-700 hover:border-blue-400 dark:hover:border-blue-600"
-                    }`}
-                    aria-label="Filter by TypeScript"
-                  >
-                    TypeScript ({repos.filter((r) => r.hasTypescript).length})
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => toggleLanguage("javascript")}
-                    className={`px-2 py-0.5 text-[10px] font-medium rounded-full transition-colors ${
-                      typescriptFilter.includes("javascript")
-                        ? "bg-yellow-500 text-white"
-                        : "bg-white dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 border border-zinc-200 dark:border-zinc-700 hover:border-yellow-400 dark:hover:border-yellow-600"
-                    }`}
-                    aria-label="Filter by JavaScript"
-                  >
-                    JavaScript ({repos.filter((r) => !r.hasTypescript).length})
-                  </button>
+                  {availableLanguages.map((language) => (
+                    <button
+                      key={language}
+                      type="button"
+                      onClick={() => toggleLanguage(language)}
+                      className={`px-2 py-0.5 text-[10px] font-medium rounded-full transition-colors ${
+                        languageFilter.includes(language)
+                          ? "bg-violet-500 text-white"
+                          : "bg-white dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 border border-zinc-200 dark:border-zinc-700 hover:border-violet-400 dark:hover:border-violet-600"
+                      }`}
+                      aria-label={`Filter by ${LANGUAGE_LABELS[language]}`}
+                    >
+                      {LANGUAGE_LABELS[language]} ({languageCounts[language] || 0})
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Git State Capsules */}
+              <div>
+                <label className="text-[10px] font-medium text-zinc-600 dark:text-zinc-400 block mb-1.5">
+                  Git
+                </label>
+                <div className="flex flex-wrap gap-1">
+                  {GIT_FILTERS.map(({ value, label, matches }) => {
+                    const count = repos.filter(matches).length;
+                    if (count === 0 && !gitFilter.includes(value)) return null;
+                    return (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => toggleGitFilter(value)}
+                        className={`px-2 py-0.5 text-[10px] font-medium rounded-full transition-colors ${
+                          gitFilter.includes(value)
+                            ? "bg-violet-500 text-white"
+                            : "bg-white dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 border border-zinc-200 dark:border-zinc-700 hover:border-violet-400 dark:hover:border-violet-600"
+                        }`}
+                        aria-label={`Filter by git state ${label}`}
+                      >
+                        {label} ({count})
+                      </button>
+                    );
+                  })}
                 </div>
               </div>
 
@@ -420,8 +612,10 @@ export const RepoList = ({
                   <button
                     type="button"
                     onClick={() => {
+                      onTagFilterChange([]);
                       onVersionFilterChange([]);
-                      onTypescriptFilterChange([]);
+                      onLanguageFilterChange([]);
+                      onGitFilterChange([]);
                     }}
                     className="px-2 py-0.5 text-[10px] font-medium text-violet-600 dark:text-violet-400 hover:text-violet-700 dark:hover:text-violet-300 transition-colors"
                   >
@@ -434,15 +628,7 @@ export const RepoList = ({
 
           {/* Grid */}
           <div className="space-y-2">
-            {filteredRepos.map((repo) => (
-              <RepoCard
-                key={repo.path}
-                repo={repo}
-                onAction={onAction}
-                isSelected={selectedRepos.has(repo.path)}
-                onToggleSelection={onToggleSelection}
-              />
-            ))}
+            {topLevelRepos.map(renderRepo)}
           </div>
         </div>
       </div>
@@ -579,3 +765,30 @@ const BatchActionButton = ({
     {label}
   </button>
 );
+
+interface OptionToggleProps {
+  icon: React.ReactNode;
+  label: string;
+  legend: string;
+  checked: boolean;
+  onChange: (value: boolean) => void;
+}
+
+const OptionToggle = ({ icon, label, legend, checked, onChange }: OptionToggleProps) => (
+  <button
+    type="button"
+    onClick={() => onChange(!checked)}
+    className="flex items-center gap-1 px-1 text-[10px] font-medium text-zinc-600 dark:text-zinc-400 hover:text-violet-600 dark:hover:text-violet-400 transition-colors"
+    aria-label={`Toggle ${label}`}
+    aria-pressed={checked}
+    title={legend}
+  >
+    {checked ? (
+      <CheckSquare className="w-3.5 h-3.5" />
+    ) : (
+      <Square className="w-3.5 h-3.5" />
+    )}
+    {icon}
+    {label}
+  </button>
+);
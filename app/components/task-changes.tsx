@@ -0,0 +1,303 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  RefreshCw,
+  Undo2,
+} from "lucide-react";
+import {
+  ACTIVE_TASK_STATUSES,
+  type DiffFile,
+  type DiffHunk,
+  type DiffLine,
+  type TaskDiff,
+  type TaskStatus,
+} from "@/lib/types";
+
+interface TaskChangesProps {
+  taskId: string;
+  status: TaskStatus;
+}
+
+interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+const STATUS_BADGES: Record<DiffFile["status"], string> = {
+  added: "text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-950/30",
+  modified: "text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30",
+  deleted: "text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30",
+};
+
+// Pair each run of deletions with the additions that follow it
+const toSideBySideRows = (hunk: DiffHunk): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let deletions: DiffLine[] = [];
+  let additions: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(deletions.length, additions.length); i++) {
+      rows.push({ left: deletions[i], right: additions[i] });
+    }
+    deletions = [];
+    additions = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.type === "del") {
+      if (additions.length > 0) flush();
+      deletions.push(line);
+    } else if (line.type === "add") {
+      additions.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+};
+
+const DiffCell = ({ line, side }: { line?: DiffLine; side: "left" | "right" }) => {
+  const lineNumber = side === "left" ? line?.oldLine : line?.newLine;
+  const background = !line
+    ? "bg-zinc-100 dark:bg-zinc-900"
+    : line.type === "del"
+    ? "bg-red-50 dark:bg-red-950/30"
+    : line.type === "add"
+    ? "bg-green-50 dark:bg-green-950/30"
+    : "";
+
+  return (
+    <>
+      <td className={`w-10 px-1 text-right text-zinc-400 select-none align-top ${background}`}>
+        {lineNumber}
+      </td>
+      <td className={`w-1/2 px-2 whitespace-pre-wrap break-all align-top ${background}`}>
+        {line?.content}
+      </td>
+    </>
+  );
+};
+
+export const TaskChanges = ({ taskId, status }: TaskChangesProps) => {
+  const [diff, setDiff] = useState<TaskDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set());
+  const [busyFile, setBusyFile] = useState<string | null>(null);
+
+  const fetchDiff = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/diff`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load changes");
+      }
+      setDiff(data);
+      setError(null);
+    } catch (fetchError) {
+      setError(fetchError instanceof Error ? fetchError.message : "Failed to load changes");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  // Reload whenever the task changes state (e.g. the agent just finished)
+  useEffect(() => {
+    fetchDiff();
+  }, [fetchDiff, status]);
+
+  const handleReview = async (path: string, action: "accept" | "revert") => {
+    if (busyFile) return;
+
+    setBusyFile(path);
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/diff`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ path, action }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || `Failed to ${action} ${path}`);
+      }
+      if (action === "revert") {
+        await fetchDiff();
+      } else {
+        setDiff((prev) => (prev ? { ...prev, review: data.review } : prev));
+      }
+    } catch (reviewError) {
+      setError(reviewError instanceof Error ? reviewError.message : "Review failed");
+    } finally {
+      setBusyFile(null);
+    }
+  };
+
+  const toggleFile = (path: string) => {
+    setExpandedFiles((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  // The server refuses reviews while the agent may still touch the checkout
+  const isAgentActive = ACTIVE_TASK_STATUSES.includes(status);
+
+  const revertedCount = diff
+    ? Object.entries(diff.review).filter(
+        ([path, decision]) => decision === "reverted" && !diff.files.some((f) => f.path === path)
+      ).length
+    : 0;
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-3 min-h-0">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-zinc-500 dark:text-zinc-400">
+          {diff ? (
+            <>
+              {diff.files.length} changed file{diff.files.length !== 1 ? "s" : ""} since{" "}
+              <span className="font-mono">{diff.baseCommit.slice(0, 7)}</span>
+              {revertedCount > 0 && <> · {revertedCount} reverted</>}
+              {diff.excluded.length > 0 && (
+                <span title={diff.excluded.join("\n")}>
+                  {" "}· {diff.excluded.length} already uncommitted before the task, not shown
+                </span>
+              )}
+            </>
+          ) : (
+            "Changes since the task started"
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={fetchDiff}
+          disabled={isLoading}
+          className="flex items-center gap-1 px-2 py-0.5 text-[10px] font-medium rounded bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50"
+          aria-label="Refresh changes"
+        >
+          <RefreshCw className={`w-3 h-3 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {isLoading && !diff && (
+        <div className="flex items-center gap-1.5 text-zinc-500">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          <span className="text-xs">Computing diff...</span>
+        </div>
+      )}
+
+      {diff && diff.files.length === 0 && (
+        <p className="text-xs text-zinc-400 dark:text-zinc-500">No changes yet.</p>
+      )}
+
+      {diff?.files.map((file) => {
+        const isExpanded = expandedFiles.has(file.path);
+        const decision = diff.review[file.path];
+
+        return (
+          <div
+            key={file.path}
+            className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg overflow-hidden"
+          >
+            <div className="flex items-center gap-2 px-3 py-2">
+              <button
+                type="button"
+                onClick={() => toggleFile(file.path)}
+                className="flex items-center gap-2 min-w-0 flex-1 text-left"
+                aria-label={`Toggle diff for ${file.path}`}
+              >
+                {isExpanded ? (
+                  <ChevronDown className="w-3 h-3 shrink-0" />
+                ) : (
+                  <ChevronRight className="w-3 h-3 shrink-0" />
+                )}
+                <span className="text-xs font-mono truncate">{file.path}</span>
+                <span className={`text-[10px] px-1.5 py-0.5 rounded ${STATUS_BADGES[file.status]}`}>
+                  {file.status}
+                </span>
+                <span className="text-[10px] text-green-600 dark:text-green-400">+{file.additions}</span>
+                <span className="text-[10px] text-red-600 dark:text-red-400">-{file.deletions}</span>
+              </button>
+              {decision === "accepted" ? (
+                <span className="flex items-center gap-1 text-[10px] text-green-600 dark:text-green-400">
+                  <Check className="w-3 h-3" />
+                  Accepted
+                </span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleReview(file.path, "accept")}
+                  disabled={!!busyFile || isAgentActive}
+                  className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-950/30 hover:bg-green-100 dark:hover:bg-green-950/50 border border-green-200 dark:border-green-900 rounded transition-colors disabled:opacity-50"
+                >
+                  <Check className="w-3 h-3" />
+                  Accept
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => handleReview(file.path, "revert")}
+                disabled={!!busyFile || isAgentActive}
+                className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30 hover:bg-red-100 dark:hover:bg-red-950/50 border border-red-200 dark:border-red-900 rounded transition-colors disabled:opacity-50"
+              >
+                {busyFile === file.path ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <Undo2 className="w-3 h-3" />
+                )}
+                Revert
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div className="border-t border-zinc-200 dark:border-zinc-800 overflow-x-auto">
+                {file.binary ? (
+                  <p className="px-3 py-2 text-xs text-zinc-400">Binary file</p>
+                ) : (
+                  file.hunks.map((hunk, hunkIndex) => (
+                    <table key={hunkIndex} className="w-full text-[10px] font-mono border-collapse">
+                      <tbody>
+                        <tr>
+                          <td
+                            colSpan={4}
+                            className="px-2 py-0.5 text-violet-600 dark:text-violet-400 bg-violet-50 dark:bg-violet-950/30"
+                          >
+                            {hunk.header}
+                          </td>
+                        </tr>
+                        {toSideBySideRows(hunk).map((row, rowIndex) => (
+                          <tr key={rowIndex}>
+                            <DiffCell line={row.left} side="left" />
+                            <DiffCell line={row.right} side="right" />
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { History, Loader2, Pause, Play, X } from "lucide-react";
+import type { AgentTask, TaskEvent } from "@/lib/types";
+import { buildReplayTimeline, getReplayStartState, type ReplayStep } from "@/lib/replay";
+import { createStreamUpdateHandler } from "@/lib/stream-updates";
+import { AgentView } from "./agent-view";
+
+interface TaskReplayProps {
+  task: AgentTask;
+  onExit: () => void;
+}
+
+const SPEEDS = [1, 2, 5, 10, 25, 50];
+const TICK_MS = 50;
+
+// What the view shows at the current replay position
+interface ReplayFrame {
+  task: AgentTask;
+  activeToolCalls: Set<string>;
+  clock: number; // Recorded time at the current position
+  applied: number; // Steps applied so far
+}
+
+// Applies steps through the same handler as live streams, against a private copy of the task
+interface ReplayEngine extends ReplayFrame {
+  position: number;
+  apply: (step: ReplayStep) => void;
+}
+
+const createEngine = (task: AgentTask): ReplayEngine => {
+  const engine: ReplayEngine = {
+    task: getReplayStartState(task),
+    activeToolCalls: new Set(),
+    clock: task.createdAt,
+    applied: 0,
+    position: 0,
+    apply: () => {},
+  };
+  const handler = createStreamUpdateHandler({
+    updateTask: (updater) => {
+      engine.task = updater(engine.task);
+    },
+    setActiveToolCalls: (updater) => {
+      engine.activeToolCalls = updater(engine.activeToolCalls);
+    },
+    now: () => engine.clock,
+  });
+  engine.apply = (step) => {
+    engine.clock = step.at;
+    handler.apply(step.update);
+    engine.applied++;
+  };
+  return engine;
+};
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Plays a finished task back in the agent view as if it were running
+export const TaskReplay = ({ task, onExit }: TaskReplayProps) => {
+  // The task as it was when replay started - polling updates don't change the recording
+  const [recordedTask] = useState(task);
+  const [steps, setSteps] = useState<ReplayStep[] | null>(null);
+  const [position, setPosition] = useState(0); // ms since the first step
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(10);
+  const [frame, setFrame] = useState<ReplayFrame>(() => ({
+    task: getReplayStartState(task),
+    activeToolCalls: new Set(),
+    clock: task.createdAt,
+    applied: 0,
+  }));
+  const engineRef = useRef<ReplayEngine | null>(null);
+
+  const startTime = steps?.[0]?.at ?? 0;
+  const duration = steps && steps.length > 0 ? steps[steps.length - 1].at - startTime : 0;
+
+  // Load the recorded updates - the event log if the task has one, its stored timestamps otherwise
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      let events: TaskEvent[] = [];
+      try {
+        const res = await fetch(`/api/tasks/${recordedTask.id}/events`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to load events");
+        events = data.events || [];
+      } catch (error) {
+        console.error(`[Task ${recordedTask.id}] Failed to load event log, replaying stored messages:`, error);
+      }
+      if (cancelled) return;
+      setSteps(buildReplayTimeline(recordedTask, events));
+      setIsPlaying(true);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [recordedTask]);
+
+  // Move to a position, replaying from the start when going backwards
+  const seek = useCallback(
+    (target: number) => {
+      if (!steps) return;
+
+      let engine = engineRef.current;
+      if (!engine || target < engine.position) {
+        engine = createEngine(recordedTask);
+        engineRef.current = engine;
+      }
+      while (engine.applied < steps.length && steps[engine.applied].at - startTime <= target) {
+        engine.apply(steps[engine.applied]);
+      }
+      engine.position = target;
+      engine.clock = startTime + target;
+
+      setPosition(target);
+      setFrame({
+        task: engine.task,
+        activeToolCalls: engine.activeToolCalls,
+        clock: engine.clock,
+        applied: engine.applied,
+      });
+    },
+    [steps, recordedTask, startTime]
+  );
+
+  // Advance while playing
+  useEffect(() => {
+    if (!isPlaying || !steps) return;
+
+    const interval = setInterval(() => {
+      const next = Math.min(duration, (engineRef.current?.position ?? 0) + TICK_MS * speed);
+      seek(next);
+      if (next >= duration) {
+        setIsPlaying(false);
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, steps, duration, seek]);
+
+  const handlePlayPause = () => {
+    if (!isPlaying && position >= duration) {
+      seek(0);
+    }
+    setIsPlaying((prev) => !prev);
+  };
+
+  // Scrubber marks for tool calls and text, one per half percent of the timeline
+  const markers = useMemo(() => {
+    if (!steps || duration === 0) return [];
+    const seen = new Set<string>();
+    return steps.flatMap((step) => {
+      const kind =
+        step.update.type === "tool-call-started" ? "tool" : step.update.type === "text-delta" ? "text" : null;
+      if (!kind) return [];
+      const offset = Math.round(((step.at - startTime) / duration) * 200) / 2;
+      const key = `${kind}-${offset}`;
+      if (seen.has(key)) return [];
+      seen.add(key);
+      return [{ key, kind, offset }];
+    });
+  }, [steps, duration, startTime]);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <AgentView task={frame.task} activeToolCalls={frame.activeToolCalls} replayClock={frame.clock} />
+
+      {/* Replay Controls */}
+      <div className="border-t border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 shrink-0 px-4 py-2 space-y-1.5">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-violet-600 dark:text-violet-400" />
+          <span className="text-xs font-medium">Replay</span>
+          {steps ? (
+            <>
+              <button
+                type="button"
+                onClick={handlePlayPause}
+                className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-violet-700 dark:text-violet-300 bg-violet-50 dark:bg-violet-950/30 hover:bg-violet-100 dark:hover:bg-violet-950/50 rounded transition-colors"
+                aria-label={isPlaying ? "Pause replay" : "Play replay"}
+              >
+                {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                {isPlaying ? "Pause" : "Play"}
+              </button>
+              <span className="text-[10px] font-mono text-zinc-500 dark:text-zinc-400">
+                {formatTime(position)} / {formatTime(duration)}
+              </span>
+              <span className="text-[10px] text-zinc-400 dark:text-zinc-500">
+                {frame.applied}/{steps.length} updates
+              </span>
+            </>
+          ) : (
+            <span className="flex items-center gap-1 text-[10px] text-zinc-500">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Loading recording...
+            </span>
+          )}
+          <div className="flex items-center gap-0.5 ml-auto">
+            {SPEEDS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setSpeed(option)}
+                className={`px-1.5 py-0.5 text-[10px] font-medium rounded transition-colors ${
+                  speed === option
+                    ? "bg-violet-100 dark:bg-violet-950/50 text-violet-700 dark:text-violet-300"
+                    : "text-zinc-500 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                }`}
+                aria-label={`Replay at ${option}x`}
+              >
+                {option}x
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={onExit}
+            className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-zinc-600 dark:text-zinc-400 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded transition-colors"
+            aria-label="Exit replay"
+          >
+            <X className="w-3 h-3" />
+            Exit
+          </button>
+        </div>
+
+        {/* Scrubber over the timeline - blue marks are tool calls, violet marks are text */}
+        <div className="relative">
+          <div className="absolute inset-x-0 top-0 h-1.5 pointer-events-none">
+            {markers.map((marker) => (
+              <span
+                key={marker.key}
+                className={`absolute top-0 w-px h-1.5 ${marker.kind === "tool" ? "bg-blue-500" : "bg-violet-300 dark:bg-violet-700"}`}
+                style={{ left: `${marker.offset}%` }}
+              />
+            ))}
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={Math.max(1, Math.round(duration / 1000))}
+            value={position}
+            onChange={(e) => seek(Number(e.target.value))}
+            disabled={!steps || duration === 0}
+            className="w-full mt-1.5 accent-violet-600"
+            aria-label="Replay position"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
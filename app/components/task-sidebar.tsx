@@ -21,8 +21,14 @@ export const TaskSidebar = ({
   onClearCompleted,
 }: TaskSidebarProps) => {
   const runningCount = tasks.filter((t) => t.status === "running").length;
+  const queuedCount = tasks.filter((t) => t.status === "pending").length;
+  // Paused until the user approves or denies a tool call
+  const awaitingApprovalCount = tasks.filter((t) => t.status === "awaiting-approval").length;
+  const verificationFailedCount = tasks.filter(
+    (t) => t.status === "completed" && t.verification?.status === "failed"
+  ).length;
   const completedCount = tasks.filter(
-    (t) => t.status === "completed" || t.status === "failed"
+    (t) => t.status === "completed" || t.status === "failed" || t.status === "cancelled"
   ).length;
 
   const activeTask = tasks.find((t) => t.id === activeTaskId);
@@ -41,11 +47,28 @@ export const TaskSidebar = ({
               </span>
             )}
           </div>
-          {runningCount > 0 && (
-            <span className="text-[10px] bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 px-1.5 py-0.5 rounded">
-              {runningCount} running
-            </span>
-          )}
+          <div className="flex items-center gap-1">
+            {runningCount > 0 && (
+              <span className="text-[10px] bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 px-1.5 py-0.5 rounded">
+                {runningCount} running
+              </span>
+            )}
+            {queuedCount > 0 && (
+              <span className="text-[10px] bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 px-1.5 py-0.5 rounded">
+                {queuedCount} queued
+              </span>
+            )}
+            {awaitingApprovalCount > 0 && (
+              <span className="text-[10px] bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400 px-1.5 py-0.5 rounded font-medium animate-pulse">
+                {awaitingApprovalCount} need{awaitingApprovalCount === 1 ? "s" : ""} approval
+              </span>
+            )}
+            {verificationFailedCount > 0 && (
+              <span className="text-[10px] bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400 px-1.5 py-0.5 rounded">
+                {verificationFailedCount} checks failed
+              </span>
+            )}
+          </div>
         </div>
       </div>
 
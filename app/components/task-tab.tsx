@@ -12,6 +12,10 @@ import {
   Package,
   MessageSquare,
   AlertTriangle,
+  PauseCircle,
+  ShieldAlert,
+  Hand,
+  CircleSlash,
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import type { AgentTask, TaskAction, TaskStatus } from "@/lib/types";
@@ -28,6 +32,9 @@ const STATUS_ICONS: Record<TaskStatus, React.ReactNode> = {
   running: <Loader2 className="w-3 h-3 text-blue-500 animate-spin" />,
   completed: <CheckCircle2 className="w-3 h-3 text-green-500" />,
   failed: <XCircle className="w-3 h-3 text-red-500" />,
+  cancelled: <CircleSlash className="w-3 h-3 text-zinc-400" />,
+  interrupted: <PauseCircle className="w-3 h-3 text-amber-500" />,
+  "awaiting-approval": <Hand className="w-3 h-3 text-amber-500 animate-pulse" />,
 };
 
 const ACTION_ICONS: Record<TaskAction, React.ReactNode> = {
@@ -84,6 +91,10 @@ export const TaskTab = ({ task, isActive, onSelect, onClose }: TaskTabProps) =>
   const idleTime = task.lastActivityTime ? currentTime - task.lastActivityTime : 0;
   const isStuck = task.status === "running" && idleTime > 30000;
 
+  // The agent finished, but the project's build/lint/test didn't pass - not the same as an agent failure
+  const verificationFailed = task.status === "completed" && task.verification?.status === "failed";
+  const isVerifying = task.verification?.status === "running";
+
   return (
     <button
       type="button"
@@ -98,7 +109,13 @@ export const TaskTab = ({ task, isActive, onSelect, onClose }: TaskTabProps) =>
       tabIndex={0}
     >
       {/* Status Icon */}
-      <div className="shrink-0">{STATUS_ICONS[task.status]}</div>
+      <div className="shrink-0">
+        {verificationFailed ? (
+          <ShieldAlert className="w-3 h-3 text-orange-500" />
+        ) : (
+          STATUS_ICONS[task.status]
+        )}
+      </div>
 
       {/* Task Info */}
       <div className="flex-1 min-w-0">
@@ -116,6 +133,9 @@ export const TaskTab = ({ task, isActive, onSelect, onClose }: TaskTabProps) =>
         <div className="flex items-center gap-1 text-[10px] text-zinc-500 dark:text-zinc-400">
           {ACTION_ICONS[task.action]}
           <span>{ACTION_LABELS[task.action]}</span>
+          {task.mode === "plan" && (
+            <span className="text-sky-600 dark:text-sky-400">• Plan</span>
+          )}
           {task.sessionId && (
             <span className="text-green-600 dark:text-green-400">• Chat</span>
           )}
@@ -124,6 +144,15 @@ export const TaskTab = ({ task, isActive, onSelect, onClose }: TaskTabProps) =>
               • Stuck {Math.floor(idleTime / 1000)}s
             </span>
           )}
+          {isVerifying && (
+            <span className="text-blue-600 dark:text-blue-400">• Verifying</span>
+          )}
+          {task.status === "awaiting-approval" && (
+            <span className="text-amber-600 dark:text-amber-400 font-medium">• Needs approval</span>
+          )}
+          {verificationFailed && (
+            <span className="text-orange-600 dark:text-orange-400 font-medium">• Checks failed</span>
+          )}
         </div>
         {task.sessionId && (
           <div className="text-[9px] text-zinc-400 dark:text-zinc-500 font-mono truncate mt-0.5" title={task.sessionId}>
@@ -6,12 +6,19 @@ import type {
   RepoInfo,
   AgentTask,
   TaskAction,
+  TaskMode,
   ChatMessage,
-  AgentUpdate,
+  ApprovalDecision,
 } from "@/lib/types";
+import { buildPlanExecutionPrompt } from "@/lib/plan-mode";
+import { getFrameworkVersion, withInstalledVersions } from "@/lib/repo-versions";
+import { getRepoTagIds, getTagLabel } from "@/lib/frameworks";
+import { getRepoLanguage, withEcosystemContext } from "@/lib/ecosystems/info";
+import { useAgentStream } from "@/hooks/use-agent-stream";
 import { RepoScanner } from "./components/repo-scanner";
-import { RepoList } from "./components/repo-list";
+import { RepoList, GIT_FILTERS } from "./components/repo-list";
 import { AgentView } from "./components/agent-view";
+import { TaskReplay } from "./components/task-replay";
 import { TaskSidebar } from "./components/task-sidebar";
 import { DatabaseInfo } from "./components/database-info";
 import { HelpModal } from "./components/help-modal";
@@ -48,18 +55,26 @@ export default function Home() {
   const [scanError, setScanError] = useState<string | null>(null);
 
   // Filter state
-  const [frameworkFilter, setFrameworkFilter] = useState<string[]>([]);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [versionFilter, setVersionFilter] = useState<string[]>([]);
-  const [typescriptFilter, setTypescriptFilter] = useState<string[]>([]);
+  const [languageFilter, setLanguageFilter] = useState<string[]>([]);
+  const [gitFilter, setGitFilter] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState<string>("");
 
   // Selection state
   const [selectedRepos, setSelectedRepos] = useState<Set<string>>(new Set());
 
+  // Run new tasks in their own git worktree instead of the user's checkout
+  const [useWorktree, setUseWorktree] = useState(false);
+  // Send failing build/lint/test output back to the agent automatically
+  const [autoRepair, setAutoRepair] = useState(false);
+  // Start new tasks read-only: the agent returns a plan to review before anything changes
+  const [planMode, setPlanMode] = useState(false);
+
   // Task management state
   const [tasks, setTasks] = useState<AgentTask[]>([]);
   const [activeTaskId, setActiveTaskId] = useState<string | null>(null);
-  const [activeToolCalls, setActiveToolCalls] = useState<Set<string>>(new Set());
+  const [replayTaskId, setReplayTaskId] = useState<string | null>(null);
   const [isLoadingTasks, setIsLoadingTasks] = useState(true);
 
   // Track task IDs that need persistence (debounced)
@@ -76,35 +91,39 @@ export default function Home() {
       const query = searchQuery.toLowerCase();
       const matchesName = repo.name.toLowerCase().includes(query);
       const matchesPath = repo.path.toLowerCase().includes(query);
-      const matchesFramework = repo.framework?.toLowerCase().includes(query);
-      if (!matchesName && !matchesPath && !matchesFramework) {
+      const matchesTag = getRepoTagIds(repo).some(
+        (id) => id.includes(query) || getTagLabel(id).toLowerCase().includes(query)
+      );
+      if (!matchesName && !matchesPath && !matchesTag) {
         return false;
       }
     }
 
-    // Framework filter (multi-select)
-    if (frameworkFilter.length > 0 && !frameworkFilter.includes(repo.framework || "")) {
+    // Tag filter (multi-select) - frameworks, runtimes, bundlers and test runners
+    if (tagFilter.length > 0 && !getRepoTagIds(repo).some((id) => tagFilter.includes(id))) {
       return false;
     }
 
-    // TypeScript filter (multi-select)
-    if (typescriptFilter.length > 0) {
-      const hasTs = repo.hasTypescript;
-      const matchesTs = typescriptFilter.includes("typescript") && hasTs;
-      const matchesJs = typescriptFilter.includes("javascript") && !hasTs;
-      if (!matchesTs && !matchesJs) {
-        return false;
-      }
+    // Language filter (multi-select)
+    if (languageFilter.length > 0 && !languageFilter.includes(getRepoLanguage(repo))) {
+      return false;
     }
 
     // Version filter (multi-select)
     if (versionFilter.length > 0) {
-      const cleanVersion = repo.frameworkVersion?.replace("^", "").replace("~", "") || "";
-      if (!versionFilter.includes(cleanVersion)) {
+      if (!versionFilter.includes(getFrameworkVersion(repo) || "")) {
         return false;
       }
     }
 
+    // Git state filter (multi-select)
+    if (
+      gitFilter.length > 0 &&
+      !GIT_FILTERS.some((f) => gitFilter.includes(f.value) && f.matches(repo))
+    ) {
+      return false;
+    }
+
     return true;
   });
 
@@ -129,17 +148,31 @@ export default function Home() {
     setSelectedRepos(new Set());
   }, []);
 
-  // Force periodic re-render when there are active tool calls (to update duration displays)
+  // Poll the server for progress on tasks run by the server-side queue
+  const hasActiveQueuedTasks = tasks.some(
+    (t) => t.queued && (t.status === "pending" || t.status === "running")
+  );
   useEffect(() => {
-    if (activeToolCalls.size === 0) return;
-    
-    const interval = setInterval(() => {
-      // Force a re-render by updating state slightly
-      setTasks((prev) => [...prev]);
-    }, 1000); // Update every second
-    
+    if (!hasActiveQueuedTasks) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const res = await fetch("/api/tasks");
+        if (!res.ok) return;
+        const data = await res.json();
+        const serverTasks = new Map<string, AgentTask>(
+          (data.tasks as AgentTask[]).map((t) => [t.id, t])
+        );
+        setTasks((prev) =>
+          prev.map((t) => (t.queued ? serverTasks.get(t.id) ?? t : t))
+        );
+      } catch (error) {
+        console.error("Failed to refresh queued tasks:", error);
+      }
+    }, 2000);
+
     return () => clearInterval(interval);
-  }, [activeToolCalls.size]);
+  }, [hasActiveQueuedTasks]);
 
   // Load persisted tasks and repos on mount
   useEffect(() => {
@@ -156,6 +189,13 @@ export default function Home() {
             if (!activeTaskId && tasksData.tasks.length > 0) {
               setActiveTaskId(tasksData.tasks[0].id);
             }
+
+            // Re-attach to runs a previous page load was streaming; the server keeps
+            // persisting them, so these updates only need to reach the UI
+            for (const task of tasksData.tasks as AgentTask[]) {
+              if ((task.status !== "running" && task.status !== "pending") || task.queued) continue;
+              attach(task.id);
+            }
           }
         }
 
@@ -219,6 +259,28 @@ export default function Home() {
     [tasks, saveTaskToDb]
   );
 
+  // Agent streams for the tasks this page started or re-attached to
+  const updateTaskState = useCallback(
+    (taskId: string, updater: (task: AgentTask) => AgentTask) => {
+      setTasks((prev) => prev.map((t) => (t.id === taskId ? updater(t) : t)));
+      queueTaskSave(taskId);
+    },
+    [queueTaskSave]
+  );
+  const { activeToolCalls, connect, attach, disconnect, failTask } = useAgentStream(updateTaskState);
+
+  // Force periodic re-render when there are active tool calls (to update duration displays)
+  useEffect(() => {
+    if (activeToolCalls.size === 0) return;
+    
+    const interval = setInterval(() => {
+      // Force a re-render by updating state slightly
+      setTasks((prev) => [...prev]);
+    }, 1000); // Update every second
+    
+    return () => clearInterval(interval);
+  }, [activeToolCalls.size]);
+
   // Scan for repos
   const handleScan = useCallback(async (rootPath: string) => {
     setIsScanning(true);
@@ -264,18 +326,40 @@ export default function Home() {
 
   // Create and run an agent task
   const handleAction = useCallback(
-    async (repo: RepoInfo, action: TaskAction, customPrompt?: string) => {
+    async (
+      repo: Pick<RepoInfo, "path" | "name">,
+      action: TaskAction,
+      customPrompt?: string,
+      approvedPlan?: { taskId: string; plan: string }
+    ) => {
       const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+      // Executing an approved plan is always a real run
+      const mode: TaskMode = !approvedPlan && planMode ? "plan" : "execute";
 
       // Determine the prompt
-      const prompt =
+      const scannedRepo = repos.find((r) => r.path === repo.path);
+      const basePrompt =
         action === "custom"
           ? customPrompt || "Analyze this project."
           : actionPrompts[action];
+      const actionPrompt = scannedRepo
+        ? withEcosystemContext(
+            withInstalledVersions(basePrompt, action, scannedRepo),
+            action,
+            scannedRepo
+          )
+        : basePrompt;
+      const prompt = approvedPlan
+        ? buildPlanExecutionPrompt(actionPrompt, approvedPlan.plan)
+        : actionPrompt;
 
       // Generate deterministic session ID from repo path + initial prompt
       // This allows resuming the same conversation across deployments
-      const sessionId = await generateSessionId(repo.path, prompt);
+      // (plans get their own session so a later real run doesn't inherit the read-only context)
+      const sessionId = await generateSessionId(
+        repo.path,
+        mode === "plan" ? `plan::${prompt}` : prompt
+      );
       console.log(`[Task ${taskId}] Generated session ID:`, sessionId);
 
       // Create new task
@@ -284,6 +368,7 @@ export default function Home() {
         repoPath: repo.path,
         repoName: repo.name,
         action,
+        mode,
         status: "pending",
         customPrompt: action === "custom" ? customPrompt : undefined,
         createdAt: Date.now(),
@@ -292,14 +377,17 @@ export default function Home() {
         terminalOutput: [],
         lastActivityTime: Date.now(),
         sessionId, // Add deterministic session ID
+        useWorktree,
+        autoRepair,
+        planTaskId: approvedPlan?.taskId,
       };
 
       // Add task and set as active
       setTasks((prev) => [newTask, ...prev]);
       setActiveTaskId(taskId);
       
-      // Save new task to DB immediately
-      saveTaskToDb(newTask);
+      // Save new task to DB immediately - the agent route loads it to set up the worktree
+      await saveTaskToDb(newTask);
 
       // Create user message
       const userMessage: ChatMessage = {
@@ -343,12 +431,11 @@ export default function Home() {
         console.log(`[Task ${taskId}] Action:`, action);
         console.log(`[Task ${taskId}] Session ID:`, sessionId);
         
-        let res = await fetch("/api/agent", {
+        const res = await fetch("/api/agent", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             message: prompt,
-            workingDirectory: repo.path,
             taskId, // Pass taskId so backend can persist messages
             sessionId, // Pass deterministic session ID
           }),
@@ -357,386 +444,71 @@ export default function Home() {
         if (!res.ok) {
           const errData = await res.json();
           console.error(`[Task ${taskId}] Request failed:`, errData);
-          
-          // Handle 409 Conflict (agent busy/stuck)
-          if (res.status === 409) {
-            // If session was cleared due to stuck agent, retry with new session
-            if (errData.sessionCleared) {
-              console.log(`[Task ${taskId}] 🔥 Session was cleared (agent was stuck)`);
-              console.log(`[Task ${taskId}] Retrying with NEW session in 2 seconds...`);
-              
-              // Clear sessionId from task so new session is created
-              setTasks((prev) =>
-                prev.map((t) =>
-                  t.id === taskId ? { ...t, sessionId: undefined } : t
-                )
-              );
-              
-              await new Promise(resolve => setTimeout(resolve, 2000));
-              
-              // Generate new session ID
-              const newSessionId = await generateSessionId(repo.path, prompt + "-retry");
-              console.log(`[Task ${taskId}] New session ID:`, newSessionId);
-              
-              // Retry with new session
-              res = await fetch("/api/agent", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  message: prompt,
-                  workingDirectory: repo.path,
-                  taskId,
-                  sessionId: newSessionId,
-                }),
-              });
-              
-              if (!res.ok) {
-                const retryErrData = await res.json();
-                console.error(`[Task ${taskId}] Retry with new session failed:`, retryErrData);
-                throw new Error(retryErrData.error || "Failed to run agent after session reset");
-              }
-            } else {
-              // Agent temporarily busy, retry same session
-              console.log(`[Task ${taskId}] Agent busy, will retry in 1 second...`);
-              await new Promise(resolve => setTimeout(resolve, 1000));
-              
-              // Retry the request once
-              console.log(`[Task ${taskId}] Retrying agent request...`);
-              res = await fetch("/api/agent", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  message: prompt,
-                  workingDirectory: repo.path,
-                  taskId,
-                  sessionId,
-                }),
-              });
-              
-              if (!res.ok) {
-                const retryErrData = await res.json();
-                console.error(`[Task ${taskId}] Retry failed:`, retryErrData);
-                throw new Error(retryErrData.error || "Failed to run agent after retry");
-              }
-            }
-          } else {
-            throw new Error(errData.error || "Failed to run agent");
-          }
+          throw new Error(errData.error || "Failed to run agent");
         }
 
-        console.log(`[Task ${taskId}] Response received, starting stream...`);
-        const reader = res.body?.getReader();
-        if (!reader) throw new Error("No response body");
-
-        const decoder = new TextDecoder();
-        let buffer = "";
-        let updateCount = 0;
-
-        // Helper to update task
-        const updateTask = (updater: (task: AgentTask) => AgentTask) => {
-          setTasks((prev) => {
-            const updated = prev.map((t) => (t.id === taskId ? updater(t) : t));
-            // Queue save for this task
-            queueTaskSave(taskId);
-            return updated;
-          });
-        };
-
-        // Helper to update assistant message
-        const updateAssistantMessage = (
-          updater: (msg: ChatMessage) => ChatMessage
-        ) => {
-          updateTask((task) => ({
-            ...task,
-            messages: task.messages.map((msg) =>
-              msg.id === assistantMessageId 
-                ? { ...updater(msg), lastUpdateTime: Date.now() }
-                : msg
-            ),
-          }));
-        };
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) {
-            console.log(`[Task ${taskId}] === STREAM ENDED ===`);
-            console.log(`[Task ${taskId}] Total updates received:`, updateCount);
-            break;
-          }
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (!line.startsWith("data: ")) continue;
-
-            try {
-              const data: AgentUpdate = JSON.parse(line.slice(6));
-              updateCount++;
-              
-              if (updateCount % 10 === 0) {
-                console.log(`[Task ${taskId}] Progress: ${updateCount} updates received`);
-              }
-
-              // Update last activity time for all updates
-              updateTask((task) => ({
-                ...task,
-                lastActivityTime: Date.now(),
-              }));
-
-              switch (data.type) {
-                case "session":
-                  // Store session ID for multi-turn conversations
-                  if (data.sessionId) {
-                    console.log(`[Task ${taskId}] Session ID:`, data.sessionId);
-                    updateTask((task) => ({
-                      ...task,
-                      sessionId: data.sessionId,
-                    }));
-                  }
-                  break;
-
-                case "text-delta":
-                  updateAssistantMessage((msg) => ({
-                    ...msg,
-                    content: msg.content + (data.text || ""),
-                  }));
-                  break;
-
-                case "thinking-delta":
-                  updateAssistantMessage((msg) => ({
-                    ...msg,
-                    metadata: {
-                      ...msg.metadata,
-                      thinking: (msg.metadata?.thinking || "") + (data.text || ""),
-                      toolCalls: msg.metadata?.toolCalls || {},
-                      summaries: msg.metadata?.summaries || [],
-                    },
-                  }));
-                  break;
-
-                case "thinking-completed":
-                  updateAssistantMessage((msg) => ({
-                    ...msg,
-                    metadata: {
-                      ...msg.metadata,
-                      thinking:
-                        (msg.metadata?.thinking || "") + ` ✓ (${data.thinkingDurationMs}ms)`,
-                      toolCalls: msg.metadata?.toolCalls || {},
-                      summaries: msg.metadata?.summaries || [],
-                    },
-                  }));
-                  break;
-
-                case "tool-call-started":
-                  if (data.callId && data.toolCall) {
-                    setActiveToolCalls((prev) =>
-                      new Set(prev).add(data.callId!)
-                    );
-                    const toolWithTime = {
-                      ...data.toolCall,
-                      startTime: Date.now(),
-                    };
-                    updateAssistantMessage((msg) => ({
-                      ...msg,
-                      metadata: {
-                        ...msg.metadata,
-                        toolCalls: {
-                          ...msg.metadata?.toolCalls,
-                          [data.callId!]: toolWithTime,
-                        },
-                        thinking: msg.metadata?.thinking,
-                        summaries: msg.metadata?.summaries || [],
-                      },
-                    }));
-                    
-                    // Track ALL tool calls in terminal output for visibility
-                    const formatArgs = (args: Record<string, unknown> | undefined) => {
-                      if (!args) return "";
-                      const key = Object.keys(args)[0];
-                      const value = args[key];
-                      if (typeof value === "string" && value.length < 60) {
-                        return value;
-                      }
-                      return JSON.stringify(args, null, 2).slice(0, 200);
-                    };
-
-                    const terminalEntry = {
-                      id: data.callId!,
-                      timestamp: Date.now(),
-                      toolType: data.toolCall.type,
-                      command: data.toolCall.type === "shell" 
-                        ? String(data.toolCall.args?.command || "")
-                        : undefined,
-                      toolArgs: data.toolCall.type !== "shell"
-                        ? formatArgs(data.toolCall.args)
-                        : undefined,
-                      isRunning: true,
-                    };
-                    updateTask((task) => ({
-                      ...task,
-                      terminalOutput: [...task.terminalOutput, terminalEntry],
-                    }));
-                  }
-                  break;
-
-                case "tool-call-completed":
-                  if (data.callId && data.toolCall) {
-                    setActiveToolCalls((prev) => {
-                      const next = new Set(prev);
-                      next.delete(data.callId!);
-                      return next;
-                    });
-                    updateAssistantMessage((msg) => {
-                      const existingCall = msg.metadata?.toolCalls?.[data.callId!];
-                      const toolWithTime = {
-                        ...data.toolCall!,
-                        startTime: existingCall?.startTime,
-                        endTime: Date.now(),
-                      };
-                      return {
-                        ...msg,
-                        metadata: {
-                          ...msg.metadata,
-                          toolCalls: {
-                            ...msg.metadata?.toolCalls,
-                            [data.callId!]: toolWithTime,
-                          },
-                          thinking: msg.metadata?.thinking,
-                          summaries: msg.metadata?.summaries || [],
-                        },
-                      };
-                    });
-                    
-                    // Update shell command output in terminal
-                    if (data.toolCall.type === "shell") {
-                      updateTask((task) => ({
-                        ...task,
-                        terminalOutput: task.terminalOutput.map((entry) =>
-                          entry.id === data.callId
-                            ? {
-                                ...entry,
-                                output: data.toolCall?.result?.value 
-                                  ? (typeof data.toolCall.result.value === "string" 
-                                    ? data.toolCall.result.value 
-                                    : JSON.stringify(data.toolCall.result.value, null, 2))
-                                  : data.toolCall?.result?.error 
-                                  ? (typeof data.toolCall.result.error === "string"
-                                    ? data.toolCall.result.error
-                                    : JSON.stringify(data.toolCall.result.error, null, 2))
-                                  : "",
-                                exitCode: data.toolCall?.result?.status === "success" ? 0 : 1,
-                                isRunning: false,
-                              }
-                            : entry
-                        ),
-                      }));
-                    }
-                  }
-                  break;
-
-                case "summary":
-                  if (data.summary) {
-                    updateAssistantMessage((msg) => ({
-                      ...msg,
-                      metadata: {
-                        ...msg.metadata,
-                        summaries: [...(msg.metadata?.summaries || []), data.summary!],
-                        toolCalls: msg.metadata?.toolCalls || {},
-                        thinking: msg.metadata?.thinking,
-                      },
-                    }));
-                  }
-                  break;
-
-                case "token-delta":
-                  if (data.tokens) {
-                    updateTask((task) => ({
-                      ...task,
-                      tokenCount: task.tokenCount + data.tokens!,
-                    }));
-                  }
-                  break;
-
-                case "error":
-                  console.error(`[Task ${taskId}] Error from agent:`, data.text);
-                  updateTask((task) => ({
-                    ...task,
-                    status: "failed",
-                    error: data.text || "Unknown error occurred",
-                  }));
-                  break;
-
-                case "done":
-                  console.log(`[Task ${taskId}] Agent completed successfully`);
-                  updateAssistantMessage((msg) => ({
-                    ...msg,
-                    isStreaming: false,
-                  }));
-                  updateTask((task) => ({
-                    ...task,
-                    status: "completed",
-                  }));
-                  break;
-              }
-            } catch {
-              console.error(`[Task ${taskId}] Failed to parse SSE data:`, line.substring(0, 100));
-            }
-          }
-        }
-
-        // Mark as complete if not already failed
-        updateTask((task) => ({
-          ...task,
-          status: task.status === "failed" ? "failed" : "completed",
-          messages: task.messages.map((msg) =>
-            msg.id === assistantMessageId
-              ? { ...msg, isStreaming: false }
-              : msg
-          ),
-        }));
+        // The queue runs the agent on the server; follow its updates from where this run starts
+        console.log(`[Task ${taskId}] Agent queued`);
+        await connect(taskId, res, assistantMessageId);
       } catch (err) {
         console.error(`[Task ${taskId}] === AGENT REQUEST FAILED ===`);
         console.error(`[Task ${taskId}] Error:`, err);
-        // Mark task as failed
-        setTasks((prev) =>
-          prev.map((t) =>
-            t.id === taskId
-              ? {
-                  ...t,
-                  status: "failed",
-                  error: err instanceof Error ? err.message : "Unknown error",
-                  messages: t.messages.map((msg) =>
-                    msg.id === assistantMessageId
-                      ? { ...msg, isStreaming: false }
-                      : msg
-                  ),
-                }
-              : t
-          )
-        );
+        failTask(taskId, err);
       }
     },
-    [setTasks, queueTaskSave, setActiveToolCalls, saveTaskToDb]
+    [repos, setTasks, saveTaskToDb, connect, failTask, useWorktree, autoRepair, planMode]
   );
 
-  // Batch action handler
+  // Batch action handler - hands the batch to the server-side queue, which
+  // starts tasks as concurrency slots free up (even if this tab is closed)
   const handleBatchAction = useCallback(
     async (action: TaskAction, customPrompt?: string) => {
       const selectedReposList = repos.filter((r) => selectedRepos.has(r.path));
-      
-      // Run action on all selected repos
-      for (const repo of selectedReposList) {
-        await handleAction(repo, action, customPrompt);
-        // Small delay between spawning agents to avoid overwhelming the system
-        await new Promise((resolve) => setTimeout(resolve, 100));
+      if (selectedReposList.length === 0) return;
+
+      const prompt =
+        action === "custom"
+          ? customPrompt || "Analyze this project."
+          : actionPrompts[action];
+
+      try {
+        const res = await fetch("/api/queue", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            repos: selectedReposList.map((r) => ({
+              path: r.path,
+              name: r.name,
+              prompt: withEcosystemContext(withInstalledVersions(prompt, action, r), action, r),
+            })),
+            action,
+            mode: planMode ? "plan" : "execute",
+            prompt,
+            customPrompt,
+            useWorktree,
+            autoRepair,
+          }),
+        });
+
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to queue tasks");
+        }
+
+        const queuedTasks: AgentTask[] = data.tasks;
+        console.log(`[Queue] ${queuedTasks.length} tasks queued for ${action}`);
+        setTasks((prev) => [...queuedTasks, ...prev]);
+        if (queuedTasks.length > 0) {
+          setActiveTaskId(queuedTasks[0].id);
+        }
+      } catch (error) {
+        console.error("Failed to queue batch action:", error);
       }
       
       // Clear selection after batch run
       setSelectedRepos(new Set());
     },
-    [repos, selectedRepos, handleAction]
+    [repos, selectedRepos, useWorktree, autoRepair, planMode]
   );
 
   // Send a follow-up message to an existing task
@@ -768,12 +540,14 @@ export default function Home() {
       };
 
       // Update task with new messages and set to running
+      // (this client follows the follow-up's stream, so the task no longer needs polling)
       setTasks((prev) =>
         prev.map((t) =>
           t.id === taskId
             ? {
                 ...t,
                 status: "running",
+                queued: false,
                 messages: [...t.messages, userMessage, assistantMessage],
               }
             : t
@@ -787,7 +561,6 @@ export default function Home() {
           body: JSON.stringify({
             message,
             sessionId: task.sessionId,
-            workingDirectory: task.repoPath,
             taskId, // Pass taskId so backend can persist messages
           }),
         });
@@ -797,277 +570,94 @@ export default function Home() {
           throw new Error(errData.error || "Failed to send message");
         }
 
-        const reader = res.body?.getReader();
-        if (!reader) throw new Error("No response body");
-
-        const decoder = new TextDecoder();
-        let buffer = "";
-
-        // Helper to update task
-        const updateTask = (updater: (task: AgentTask) => AgentTask) => {
-          setTasks((prev) => {
-            const updated = prev.map((t) => (t.id === taskId ? updater(t) : t));
-            queueTaskSave(taskId);
-            return updated;
-          });
-        };
-
-        // Helper to update assistant message
-        const updateAssistantMessage = (
-          updater: (msg: ChatMessage) => ChatMessage
-        ) => {
-          updateTask((task) => ({
-            ...task,
-            messages: task.messages.map((msg) =>
-              msg.id === assistantMessageId 
-                ? { ...updater(msg), lastUpdateTime: Date.now() }
-                : msg
-            ),
-          }));
-        };
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (!line.startsWith("data: ")) continue;
-
-            try {
-              const data: AgentUpdate = JSON.parse(line.slice(6));
-
-              // Update last activity time
-              updateTask((task) => ({
-                ...task,
-                lastActivityTime: Date.now(),
-              }));
-
-              switch (data.type) {
-                case "text-delta":
-                  updateAssistantMessage((msg) => ({
-                    ...msg,
-                    content: msg.content + (data.text || ""),
-                  }));
-                  break;
-
-                case "thinking-delta":
-                  updateAssistantMessage((msg) => ({
-                    ...msg,
-                    metadata: {
-                      ...msg.metadata,
-                      thinking: (msg.metadata?.thinking || "") + (data.text || ""),
-                      toolCalls: msg.metadata?.toolCalls || {},
-                      summaries: msg.metadata?.summaries || [],
-                    },
-                  }));
-                  break;
-
-                case "thinking-completed":
-                  updateAssistantMessage((msg) => ({
-                    ...msg,
-                    metadata: {
-                      ...msg.metadata,
-                      thinking:
-                        (msg.metadata?.thinking || "") + ` ✓ (${data.thinkingDurationMs}ms)`,
-                      toolCalls: msg.metadata?.toolCalls || {},
-                      summaries: msg.metadata?.summaries || [],
-                    },
-                  }));
-                  break;
-
-                case "tool-call-started":
-                  if (data.callId && data.toolCall) {
-                    setActiveToolCalls((prev) =>
-                      new Set(prev).add(data.callId!)
-                    );
-                    const toolWithTime = {
-                      ...data.toolCall,
-                      startTime: Date.now(),
-                    };
-                    updateAssistantMessage((msg) => ({
-                      ...msg,
-                      metadata: {
-                        ...msg.metadata,
-                        toolCalls: {
-                          ...msg.metadata?.toolCalls,
-                          [data.callId!]: toolWithTime,
-                        },
-                        thinking: msg.metadata?.thinking,
-                        summaries: msg.metadata?.summaries || [],
-                      },
-                    }));
-                    
-                    // Track ALL tool calls
-                    const formatArgs = (args: Record<string, unknown> | undefined) => {
-                      if (!args) return "";
-                      const key = Object.keys(args)[0];
-                      const value = args[key];
-                      if (typeof value === "string" && value.length < 60) {
-                        return value;
-                      }
-                      return JSON.stringify(args, null, 2).slice(0, 200);
-                    };
-
-                    const terminalEntry = {
-                      id: data.callId!,
-                      timestamp: Date.now(),
-                      toolType: data.toolCall.type,
-                      command: data.toolCall.type === "shell" 
-                        ? String(data.toolCall.args?.command || "")
-                        : undefined,
-                      toolArgs: data.toolCall.type !== "shell"
-                        ? formatArgs(data.toolCall.args)
-                        : undefined,
-                      isRunning: true,
-                    };
-                    updateTask((task) => ({
-                      ...task,
-                      terminalOutput: [...task.terminalOutput, terminalEntry],
-                    }));
-                  }
-                  break;
-
-                case "tool-call-completed":
-                  if (data.callId && data.toolCall) {
-                    setActiveToolCalls((prev) => {
-                      const next = new Set(prev);
-                      next.delete(data.callId!);
-                      return next;
-                    });
-                    updateAssistantMessage((msg) => {
-                      const existingCall = msg.metadata?.toolCalls?.[data.callId!];
-                      const toolWithTime = {
-                        ...data.toolCall!,
-                        startTime: existingCall?.startTime,
-                        endTime: Date.now(),
-                      };
-                      return {
-                        ...msg,
-                        metadata: {
-                          ...msg.metadata,
-                          toolCalls: {
-                            ...msg.metadata?.toolCalls,
-                            [data.callId!]: toolWithTime,
-                          },
-                          thinking: msg.metadata?.thinking,
-                          summaries: msg.metadata?.summaries || [],
-                        },
-                      };
-                    });
-                    
-                    // Update tool output
-                    updateTask((task) => ({
-                      ...task,
-                      terminalOutput: task.terminalOutput.map((entry) =>
-                        entry.id === data.callId
-                          ? {
-                              ...entry,
-                              output: data.toolCall?.result?.value 
-                                ? (typeof data.toolCall.result.value === "string" 
-                                  ? data.toolCall.result.value 
-                                  : JSON.stringify(data.toolCall.result.value, null, 2))
-                                : data.toolCall?.result?.error 
-                                ? (typeof data.toolCall.result.error === "string"
-                                  ? data.toolCall.result.error
-                                  : JSON.stringify(data.toolCall.result.error, null, 2))
-                                : "",
-                              exitCode: data.toolCall?.result?.status === "success" ? 0 : 1,
-                              isRunning: false,
-                            }
-                          : entry
-                      ),
-                    }));
-                  }
-                  break;
-
-                case "summary":
-                  if (data.summary) {
-                    updateAssistantMessage((msg) => ({
-                      ...msg,
-                      metadata: {
-                        ...msg.metadata,
-                        summaries: [...(msg.metadata?.summaries || []), data.summary!],
-                        toolCalls: msg.metadata?.toolCalls || {},
-                        thinking: msg.metadata?.thinking,
-                      },
-                    }));
-                  }
-                  break;
-
-                case "token-delta":
-                  if (data.tokens) {
-                    updateTask((task) => ({
-                      ...task,
-                      tokenCount: task.tokenCount + data.tokens!,
-                    }));
-                  }
-                  break;
-
-                case "error":
-                  updateTask((task) => ({
-                    ...task,
-                    status: "failed",
-                    error: data.text || "Unknown error occurred",
-                  }));
-                  break;
-
-                case "done":
-                  updateAssistantMessage((msg) => ({
-                    ...msg,
-                    isStreaming: false,
-                  }));
-                  updateTask((task) => ({
-                    ...task,
-                    status: "completed",
-                  }));
-                  break;
-              }
-            } catch {
-              // Skip malformed JSON
-            }
-          }
-        }
-
-        // Mark as complete
-        updateTask((task) => ({
-          ...task,
-          status: task.status === "failed" ? "failed" : "completed",
-          messages: task.messages.map((msg) =>
-            msg.id === assistantMessageId
-              ? { ...msg, isStreaming: false }
-              : msg
-          ),
-        }));
+        await connect(taskId, res, assistantMessageId);
       } catch (err) {
-        // Mark task as failed
-        setTasks((prev) =>
-          prev.map((t) =>
-            t.id === taskId
-              ? {
-                  ...t,
-                  status: "failed",
-                  error: err instanceof Error ? err.message : "Unknown error",
-                  messages: t.messages.map((msg) =>
-                    msg.id === assistantMessageId
-                      ? { ...msg, isStreaming: false }
-                      : msg
-                  ),
-                }
-              : t
-          )
-        );
+        failTask(taskId, err);
       }
     },
-    [tasks, queueTaskSave]
+    [tasks, connect, failTask]
+  );
+
+  // Resume a task that was interrupted by a server restart
+  const handleResumeTask = useCallback(async (taskId: string) => {
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/resume`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to resume task");
+      }
+      // The queue runs the resumed task; polling picks up its progress
+      setTasks((prev) => prev.map((t) => (t.id === taskId ? data.task : t)));
+    } catch (error) {
+      console.error(`[Task ${taskId}] Failed to resume:`, error);
+    }
+  }, []);
+
+  // Approve or deny the tool call a task is paused on; the queue continues the task
+  const handleApprovalDecision = useCallback(
+    async (taskId: string, decision: ApprovalDecision) => {
+      const res = await fetch(`/api/tasks/${taskId}/approval`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || `Failed to ${decision} tool call`);
+      }
+      setTasks((prev) => prev.map((t) => (t.id === taskId ? data.task : t)));
+    },
+    []
+  );
+
+  // Start the real run for a reviewed plan, as a new task with the plan attached
+  const handleExecutePlan = useCallback(
+    (taskId: string) => {
+      const planTask = tasks.find((t) => t.id === taskId);
+      if (!planTask?.plan) return;
+
+      handleAction(
+        { path: planTask.repoPath, name: planTask.repoName },
+        planTask.action,
+        planTask.customPrompt,
+        { taskId, plan: planTask.plan }
+      );
+    },
+    [tasks, handleAction]
+  );
+
+  // Merge a task's worktree branch into the main checkout, or remove the worktree
+  const handleWorktreeAction = useCallback(
+    async (taskId: string, action: "merge" | "cleanup") => {
+      const post = (confirm?: boolean) =>
+        fetch(`/api/tasks/${taskId}/worktree`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action, confirm }),
+        });
+
+      let res = await post();
+      let data = await res.json();
+      // Removing a worktree with unsaved work only happens once the user says so
+      if (res.status === 409 && data.requiresConfirmation) {
+        if (!window.confirm(`${data.error} Remove it anyway?`)) return;
+        res = await post(true);
+        data = await res.json();
+      }
+      if (!res.ok) {
+        throw new Error(data.error || `Failed to ${action} worktree`);
+      }
+      setTasks((prev) =>
+        prev.map((t) => (t.id === taskId ? { ...t, worktree: data.task.worktree } : t))
+      );
+    },
+    []
   );
 
   // Close a task
   const handleCloseTask = useCallback(
     async (taskId: string) => {
+      disconnect(taskId);
       setTasks((prev) => prev.filter((t) => t.id !== taskId));
       if (activeTaskId === taskId) {
         setActiveTaskId(tasks.find((t) => t.id !== taskId)?.id || null);
@@ -1080,16 +670,17 @@ export default function Home() {
         console.error("Failed to delete task:", error);
       }
     },
-    [activeTaskId, tasks]
+    [activeTaskId, tasks, disconnect]
   );
 
   // Clear completed tasks
   const handleClearCompleted = useCallback(async () => {
     const completedIds = new Set(
       tasks
-        .filter((t) => t.status === "completed" || t.status === "failed")
+        .filter((t) => t.status === "completed" || t.status === "failed" || t.status === "cancelled")
         .map((t) => t.id)
     );
+    completedIds.forEach(disconnect);
     setTasks((prev) => prev.filter((t) => !completedIds.has(t.id)));
     if (activeTaskId && completedIds.has(activeTaskId)) {
       const remaining = tasks.filter((t) => !completedIds.has(t.id));
@@ -1102,7 +693,7 @@ export default function Home() {
     } catch (error) {
       console.error("Failed to clear completed tasks:", error);
     }
-  }, [tasks, activeTaskId]);
+  }, [tasks, activeTaskId, disconnect]);
 
   return (
     <div className="h-screen flex flex-col bg-zinc-50 dark:bg-zinc-950">
@@ -1146,12 +737,14 @@ export default function Home() {
             scannedPath={scannedPath}
             error={scanError}
             onAction={handleAction}
-            frameworkFilter={frameworkFilter}
-            onFrameworkFilterChange={setFrameworkFilter}
+            tagFilter={tagFilter}
+            onTagFilterChange={setTagFilter}
             versionFilter={versionFilter}
             onVersionFilterChange={setVersionFilter}
-            typescriptFilter={typescriptFilter}
-            onTypescriptFilterChange={setTypescriptFilter}
+            languageFilter={languageFilter}
+            onLanguageFilterChange={setLanguageFilter}
+            gitFilter={gitFilter}
+            onGitFilterChange={setGitFilter}
             searchQuery={searchQuery}
             onSearchQueryChange={setSearchQuery}
             selectedRepos={selectedRepos}
@@ -1159,6 +752,12 @@ export default function Home() {
             onSelectAll={handleSelectAll}
             onClearSelection={handleClearSelection}
             onBatchAction={handleBatchAction}
+            useWorktree={useWorktree}
+            onUseWorktreeChange={setUseWorktree}
+            autoRepair={autoRepair}
+            onAutoRepairChange={setAutoRepair}
+            planMode={planMode}
+            onPlanModeChange={setPlanMode}
           />
         </div>
 
@@ -1173,11 +772,18 @@ export default function Home() {
                 </p>
               </div>
             </div>
+          ) : activeTask && replayTaskId === activeTask.id ? (
+            <TaskReplay key={activeTask.id} task={activeTask} onExit={() => setReplayTaskId(null)} />
           ) : (
             <AgentView 
               task={activeTask} 
               activeToolCalls={activeToolCalls}
               onSendMessage={handleSendMessage}
+              onResumeTask={handleResumeTask}
+              onApprovalDecision={handleApprovalDecision}
+              onWorktreeAction={handleWorktreeAction}
+              onExecutePlan={handleExecutePlan}
+              onReplay={setReplayTaskId}
             />
           )}
         </div>
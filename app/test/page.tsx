@@ -1,19 +1,65 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import { Send, Terminal, Loader2 } from "lucide-react";
+import { useAgentStream } from "@/hooks/use-agent-stream";
+import type { AgentTask, ChatMessage } from "@/lib/types";
+
+// The test page has no task list - its one conversation lives in a throwaway task
+const createTestTask = (workingDirectory: string): AgentTask => ({
+  id: `test-${Date.now()}`,
+  repoPath: workingDirectory,
+  repoName: "test",
+  action: "custom",
+  status: "pending",
+  createdAt: Date.now(),
+  messages: [],
+  tokenCount: 0,
+  terminalOutput: [],
+});
+
+// Show everything the agent did as plain text, for debugging
+const formatMessage = (msg: ChatMessage) => {
+  let text = "";
+  if (msg.metadata?.thinking) {
+    text += `[Thinking: ${msg.metadata.thinking}]\n`;
+  }
+  for (const toolCall of Object.values(msg.metadata?.toolCalls || {})) {
+    text += `\n🔧 [Tool: ${toolCall.type}]\n`;
+    if (toolCall.args) {
+      text += `Args: ${JSON.stringify(toolCall.args, null, 2)}\n`;
+    }
+    if (toolCall.result) {
+      const { status, value, error } = toolCall.result;
+      text += `Status: ${status}\n`;
+      if (error) {
+        text += `Error: ${JSON.stringify(error, null, 2)}\n`;
+      } else if (value) {
+        text += `Result:\n${typeof value === "string" ? value : JSON.stringify(value, null, 2)}\n`;
+      }
+    }
+    text += "\n";
+  }
+  return text + msg.content;
+};
 
 export default function TestPage() {
   const [workingDir, setWorkingDir] = useState(process.cwd ? process.cwd() : "/Users/manglekuo/dev");
   const [prompt, setPrompt] = useState("List all files in the current directory");
-  const [messages, setMessages] = useState<Array<{ role: string; content: string }>>([]);
-  const [isStreaming, setIsStreaming] = useState(false);
-  const [currentResponse, setCurrentResponse] = useState("");
+  const [task, setTask] = useState<AgentTask | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  const { connect, failTask, connectedTaskIds } = useAgentStream(
+    useCallback((taskId: string, updater: (task: AgentTask) => AgentTask) => {
+      setTask((prev) => (prev?.id === taskId ? updater(prev) : prev));
+    }, [])
+  );
+  const isStreaming = task?.status === "running" || (!!task && connectedTaskIds.has(task.id));
+  const messages = task?.messages;
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, currentResponse]);
+  }, [messages]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -23,10 +69,25 @@ export default function TestPage() {
     console.log("Working Directory:", workingDir);
     console.log("Prompt:", prompt);
 
-    // Add user message
-    setMessages((prev) => [...prev, { role: "user", content: prompt }]);
-    setCurrentResponse("");
-    setIsStreaming(true);
+    const testTask = task?.repoPath === workingDir ? task : createTestTask(workingDir);
+    const assistantMessageId = `assistant-${Date.now()}`;
+    setTask({
+      ...testTask,
+      status: "running",
+      error: undefined,
+      messages: [
+        ...testTask.messages,
+        { id: `user-${Date.now()}`, role: "user", content: prompt, createdAt: Date.now() },
+        {
+          id: assistantMessageId,
+          role: "assistant",
+          content: "",
+          createdAt: Date.now(),
+          isStreaming: true,
+          metadata: { thinking: "", toolCalls: {}, summaries: [] },
+        },
+      ],
+    });
 
     const currentPrompt = prompt;
     setPrompt("");
@@ -50,107 +111,11 @@ export default function TestPage() {
         throw new Error(errData.error || "Failed to run agent");
       }
 
-      const reader = res.body?.getReader();
-      if (!reader) throw new Error("No response body");
-
-      const decoder = new TextDecoder();
-      let buffer = "";
-      let updateCount = 0;
-      let fullResponse = "";
-
-      console.log("Starting to read stream...");
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          console.log("Stream ended");
-          console.log("Total updates:", updateCount);
-          break;
-        }
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (!line.startsWith("data: ")) continue;
-
-          try {
-            const data = JSON.parse(line.slice(6));
-            updateCount++;
-            
-            console.log(`[Update #${updateCount}]`, {
-              type: data.type,
-              hasText: !!data.text,
-              hasCallId: !!data.callId,
-              hasToolCall: !!data.toolCall,
-            });
-
-            if (data.type === "text-delta" && data.text) {
-              fullResponse += data.text;
-              setCurrentResponse(fullResponse);
-            } else if (data.type === "thinking-delta" && data.text) {
-              // Show thinking in the response too
-              fullResponse += `[Thinking: ${data.text}]\n`;
-              setCurrentResponse(fullResponse);
-            } else if (data.type === "tool-call-started") {
-              console.log("Tool call started:", data.toolCall);
-              const toolName = data.toolCall?.type || "Unknown";
-              const toolArgs = data.toolCall?.args ? JSON.stringify(data.toolCall.args, null, 2) : "";
-              fullResponse += `\n🔧 [Tool Started: ${toolName}]\n`;
-              if (toolArgs) {
-                fullResponse += `Args: ${toolArgs}\n`;
-              }
-              setCurrentResponse(fullResponse);
-            } else if (data.type === "tool-call-completed") {
-              console.log("Tool call completed:", data.toolCall?.result?.status);
-              const toolName = data.toolCall?.type || "Unknown";
-              const status = data.toolCall?.result?.status;
-              const value = data.toolCall?.result?.value;
-              const error = data.toolCall?.result?.error;
-              
-              fullResponse += `\n✅ [Tool Completed: ${toolName}]\n`;
-              fullResponse += `Status: ${status}\n`;
-              
-              if (error) {
-                fullResponse += `Error: ${JSON.stringify(error, null, 2)}\n`;
-              } else if (value) {
-                // Format the result nicely
-                const valueStr = typeof value === "string" 
-                  ? value 
-                  : JSON.stringify(value, null, 2);
-                fullResponse += `Result:\n${valueStr}\n`;
-              }
-              fullResponse += `\n`;
-              setCurrentResponse(fullResponse);
-            } else if (data.type === "error") {
-              console.error("Agent error:", data.text);
-              fullResponse += `\n[ERROR: ${data.text}]\n`;
-              setCurrentResponse(fullResponse);
-            } else if (data.type === "done") {
-              console.log("Agent completed");
-            }
-          } catch (parseError) {
-            console.error("Failed to parse SSE:", line.substring(0, 100), parseError);
-          }
-        }
-      }
-
-      // Save complete response
-      setMessages((prev) => [...prev, { role: "assistant", content: fullResponse }]);
-      setCurrentResponse("");
+      await connect(testTask.id, res, assistantMessageId);
     } catch (err) {
       console.error("=== REQUEST FAILED ===");
       console.error("Error:", err);
-      setMessages((prev) => [
-        ...prev,
-        {
-          role: "assistant",
-          content: `ERROR: ${err instanceof Error ? err.message : "Unknown error"}`,
-        },
-      ]);
-    } finally {
-      setIsStreaming(false);
+      failTask(testTask.id, err);
     }
   };
 
@@ -185,40 +150,42 @@ export default function TestPage() {
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 && (
+        {!messages?.length && (
           <div className="text-center text-zinc-500 py-8">
             <p className="text-sm">Enter a working directory and prompt to start</p>
           </div>
         )}
 
-        {messages.map((msg, idx) => (
+        {messages?.map((msg) => (
           <div
-            key={idx}
+            key={msg.id}
             className={`p-3 rounded-lg ${
               msg.role === "user"
                 ? "bg-zinc-800 text-zinc-100 ml-12"
-                : "bg-zinc-900 text-zinc-200 mr-12 border border-zinc-800"
+                : msg.isStreaming
+                  ? "bg-zinc-900 text-zinc-200 mr-12 border border-violet-500"
+                  : "bg-zinc-900 text-zinc-200 mr-12 border border-zinc-800"
             }`}
           >
-            <div className="text-xs text-zinc-500 mb-1 font-semibold">
-              {msg.role === "user" ? "USER" : "ASSISTANT"}
-            </div>
+            {msg.isStreaming ? (
+              <div className="text-xs text-violet-400 mb-1 font-semibold flex items-center gap-2">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                ASSISTANT (streaming...)
+              </div>
+            ) : (
+              <div className="text-xs text-zinc-500 mb-1 font-semibold">
+                {msg.role === "user" ? "USER" : "ASSISTANT"}
+              </div>
+            )}
             <pre className="text-xs whitespace-pre-wrap font-mono">
-              {msg.content}
+              {msg.role === "user" ? msg.content : formatMessage(msg)}
             </pre>
           </div>
         ))}
 
-        {/* Current streaming response */}
-        {isStreaming && currentResponse && (
-          <div className="p-3 rounded-lg bg-zinc-900 text-zinc-200 mr-12 border border-violet-500">
-            <div className="text-xs text-violet-400 mb-1 font-semibold flex items-center gap-2">
-              <Loader2 className="w-3 h-3 animate-spin" />
-              ASSISTANT (streaming...)
-            </div>
-            <pre className="text-xs whitespace-pre-wrap font-mono">
-              {currentResponse}
-            </pre>
+        {task?.error && (
+          <div className="p-3 rounded-lg bg-zinc-900 text-red-400 mr-12 border border-red-900">
+            <pre className="text-xs whitespace-pre-wrap font-mono">ERROR: {task.error}</pre>
           </div>
         )}
 
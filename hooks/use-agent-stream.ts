@@ -0,0 +1,176 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createStreamUpdateHandler,
+  followTaskStream,
+  isRunEnd,
+  readSseStream,
+  type StreamUpdateHandler,
+} from "@/lib/stream-updates";
+import type { AgentRunHandle, AgentTask, AgentUpdate, ChatMessage } from "@/lib/types";
+
+// Where the caller keeps its tasks - every update of a stream is reduced into one of them
+export type TaskUpdater = (taskId: string, updater: (task: AgentTask) => AgentTask) => void;
+
+const closeStreamingMessages = (messages: ChatMessage[]) =>
+  messages.map((msg) => (msg.isStreaming ? { ...msg, isStreaming: false } : msg));
+
+// Connections to agent runs, one per task. The hook reads each run's updates (following the
+// task's stream, reconnecting after drops), reduces them into the caller's task state, and
+// tracks which tool calls are still running. Connections close when the run ends, when
+// cancelled, or when the component unmounts - the runs themselves carry on on the server.
+export function useAgentStream(updateTask: TaskUpdater) {
+  const [activeToolCalls, setActiveToolCalls] = useState<Set<string>>(new Set());
+  const [connectedTaskIds, setConnectedTaskIds] = useState<Set<string>>(new Set());
+  const connections = useRef(new Map<string, AbortController>());
+
+  // Long-lived connections always write through the caller's latest updater
+  const updateTaskRef = useRef(updateTask);
+  useEffect(() => {
+    updateTaskRef.current = updateTask;
+  }, [updateTask]);
+
+  useEffect(() => {
+    const open = connections.current;
+    return () => {
+      for (const controller of open.values()) controller.abort();
+      open.clear();
+    };
+  }, []);
+
+  // A new connection for the task replaces (and closes) the one it had
+  const openConnection = useCallback((taskId: string) => {
+    connections.current.get(taskId)?.abort();
+    const controller = new AbortController();
+    connections.current.set(taskId, controller);
+    setConnectedTaskIds((prev) => new Set(prev).add(taskId));
+    return controller;
+  }, []);
+
+  const releaseConnection = useCallback((taskId: string, controller: AbortController) => {
+    if (connections.current.get(taskId) !== controller) return;
+    connections.current.delete(taskId);
+    setConnectedTaskIds((prev) => {
+      const next = new Set(prev);
+      next.delete(taskId);
+      return next;
+    });
+  }, []);
+
+  const createHandler = useCallback(
+    (taskId: string, assistantMessageId?: string): StreamUpdateHandler =>
+      createStreamUpdateHandler(
+        {
+          updateTask: (updater) => updateTaskRef.current(taskId, updater),
+          setActiveToolCalls,
+          now: Date.now,
+        },
+        assistantMessageId
+      ),
+    []
+  );
+
+  // Mark a task failed, e.g. when the request that should start it doesn't get through
+  const failTask = useCallback((taskId: string, error: unknown) => {
+    updateTaskRef.current(taskId, (task) => ({
+      ...task,
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+      messages: closeStreamingMessages(task.messages),
+    }));
+  }, []);
+
+  // Take over the response of the request that started a run: follow the task's stream from
+  // the returned run handle, or read the body itself when the route streams directly (those
+  // can't be resumed). assistantMessageId is the message the caller added for the reply.
+  // Resolves once the run ends; a failed stream marks the task failed.
+  const connect = useCallback(
+    async (taskId: string, res: Response, assistantMessageId?: string) => {
+      const controller = openConnection(taskId);
+      const handler = createHandler(taskId, assistantMessageId);
+      let ended = false;
+      let updateCount = 0;
+      const apply = (update: AgentUpdate) => {
+        updateCount++;
+        if (updateCount % 10 === 0) {
+          console.log(`[Task ${taskId}] Progress: ${updateCount} updates received`);
+        }
+        if (update.type === "session") {
+          console.log(`[Task ${taskId}] Session ID:`, update.sessionId);
+        } else if (update.type === "error") {
+          console.error(`[Task ${taskId}] Error from agent:`, update.text);
+        } else if (update.type === "done") {
+          console.log(`[Task ${taskId}] Agent completed successfully`);
+        }
+        ended = ended || isRunEnd(update);
+        handler.apply(update);
+      };
+
+      try {
+        if (res.headers.get("Content-Type")?.includes("text/event-stream")) {
+          if (!res.body) throw new Error("No response body");
+          await readSseStream(res.body, apply, controller.signal);
+        } else {
+          const run: AgentRunHandle = await res.json();
+          console.log(`[Task ${taskId}] Following ${run.streamUrl} after event ${run.lastEventId}`);
+          // Queued runs show as pending until the queue starts them
+          updateTaskRef.current(taskId, (task) => ({ ...task, status: run.status }));
+          await followTaskStream(taskId, { ...handler, apply }, run.lastEventId, controller.signal);
+        }
+        console.log(`[Task ${taskId}] === STREAM ENDED === (${updateCount} updates)`);
+        if (controller.signal.aborted || ended) return;
+
+        // The stream closed without saying how the run ended (e.g. it was cancelled or failed
+        // before it started) - go by what the server recorded
+        const serverTask = await fetch(`/api/tasks/${taskId}`)
+          .then((taskRes) => (taskRes.ok ? taskRes.json() : null))
+          .then((data: { task?: AgentTask } | null) => data?.task ?? null)
+          .catch(() => null);
+        updateTaskRef.current(taskId, (task) => ({
+          ...task,
+          status:
+            serverTask?.status ??
+            (task.status === "failed" || task.status === "awaiting-approval" ? task.status : "completed"),
+          error: serverTask ? serverTask.error : task.error,
+          messages: closeStreamingMessages(task.messages),
+        }));
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error(`[Task ${taskId}] === AGENT STREAM FAILED ===`, error);
+        failTask(taskId, error);
+      } finally {
+        releaseConnection(taskId, controller);
+      }
+    },
+    [openConnection, releaseConnection, createHandler, failTask]
+  );
+
+  // Attach to a run already in progress (e.g. after a page reload), starting from a snapshot
+  const attach = useCallback(
+    async (taskId: string) => {
+      const controller = openConnection(taskId);
+      try {
+        await followTaskStream(taskId, createHandler(taskId), undefined, controller.signal);
+      } catch (error) {
+        console.error(`[Task ${taskId}] Failed to re-attach to stream:`, error);
+      } finally {
+        releaseConnection(taskId, controller);
+      }
+    },
+    [openConnection, releaseConnection, createHandler]
+  );
+
+  // Stop listening to a task (the run itself isn't affected)
+  const disconnect = useCallback(
+    (taskId: string) => {
+      const controller = connections.current.get(taskId);
+      if (!controller) return;
+      controller.abort();
+      releaseConnection(taskId, controller);
+    },
+    [releaseConnection]
+  );
+
+  return { activeToolCalls, connectedTaskIds, connect, attach, disconnect, failTask };
+}
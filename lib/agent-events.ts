@@ -0,0 +1,169 @@
+import { z } from "zod";
+import { TURN_END_EVENT, USER_MESSAGE_EVENT } from "./task-events";
+import type {
+  AgentTask,
+  PolicyLogEntry,
+  TaskVerification,
+  TaskWorktree,
+  TerminalOutput,
+  ToolApprovalRequest,
+  ToolCall,
+  ToolCallResult,
+} from "./types";
+
+// The updates a run streams to clients (and records in its event log). The server checks
+// every update against this schema before it goes out and the browser checks it again on
+// the way in, so both ends agree on exactly what each event type carries.
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Tool results are whatever the tool returned - only the status is relied on
+const toolCallResultSchema = z.custom<ToolCallResult>(
+  (value) => isObject(value) && typeof value.status === "string",
+  { message: "Expected a tool result with a status" }
+);
+
+const toolCallSchema: z.ZodType<ToolCall> = z.object({
+  type: z.string(),
+  args: z.record(z.string(), z.unknown()).optional(),
+  result: toolCallResultSchema.optional(),
+  startTime: z.number().optional(),
+  endTime: z.number().optional(),
+  isStuck: z.boolean().optional(),
+});
+
+const worktreeSchema: z.ZodType<TaskWorktree> = z.object({
+  path: z.string(),
+  branch: z.string(),
+  repoRoot: z.string(),
+  workingDirectory: z.string(),
+  baseCommit: z.string(),
+  createdAt: z.number(),
+  mergedAt: z.number().optional(),
+  mergeCommit: z.string().optional(),
+  removedAt: z.number().optional(),
+});
+
+const verificationSchema: z.ZodType<TaskVerification> = z.object({
+  status: z.enum(["running", "passed", "failed", "skipped"]),
+  steps: z.array(
+    z.object({
+      name: z.enum(["install", "build", "lint", "test"]),
+      command: z.string(),
+      status: z.enum(["pending", "running", "passed", "failed", "skipped"]),
+      exitCode: z.number().optional(),
+      durationMs: z.number().optional(),
+    })
+  ),
+  startedAt: z.number(),
+  finishedAt: z.number().optional(),
+  skippedReason: z.string().optional(),
+  treeHash: z.string().optional(),
+});
+
+const terminalEntrySchema: z.ZodType<TerminalOutput> = z.object({
+  id: z.string(),
+  timestamp: z.number(),
+  command: z.string().optional(),
+  output: z.string().optional(),
+  exitCode: z.number().optional(),
+  isRunning: z.boolean().optional(),
+  toolType: z.string().optional(),
+  toolArgs: z.string().optional(),
+});
+
+const policyEntrySchema: z.ZodType<PolicyLogEntry> = z.object({
+  timestamp: z.number(),
+  callId: z.string().optional(),
+  toolType: z.string(),
+  target: z.string(),
+  decision: z.enum(["allow", "deny", "require-approval"]),
+  ruleId: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+const approvalSchema: z.ZodType<ToolApprovalRequest> = z.object({
+  callId: z.string().optional(),
+  toolType: z.string(),
+  args: z.record(z.string(), z.unknown()).optional(),
+  target: z.string(),
+  ruleId: z.string().optional(),
+  reason: z.string().optional(),
+  requestedAt: z.number(),
+});
+
+// Snapshots carry the whole task; checking its identity is enough to render it
+const taskSchema = z.custom<AgentTask>(
+  (value) => isObject(value) && typeof value.id === "string" && Array.isArray(value.messages),
+  { message: "Expected a task with an id and messages" }
+);
+
+export const agentUpdateSchema = z.discriminatedUnion("type", [
+  // Straight from the agent
+  z.object({
+    type: z.literal("session"),
+    sessionId: z.string(),
+    worktree: worktreeSchema.optional(),
+    baseCommit: z.string().optional(),
+  }),
+  z.object({ type: z.literal("text-delta"), text: z.string() }),
+  z.object({ type: z.literal("thinking-delta"), text: z.string() }),
+  z.object({ type: z.literal("thinking-completed"), thinkingDurationMs: z.number() }),
+  z.object({ type: z.literal("tool-call-started"), callId: z.string(), toolCall: toolCallSchema }),
+  z.object({ type: z.literal("tool-call-completed"), callId: z.string(), toolCall: toolCallSchema }),
+  z.object({ type: z.literal("summary"), summary: z.string() }),
+  z.object({ type: z.literal("token-delta"), tokens: z.number() }),
+
+  // Added by the runner around the agent's updates
+  z.object({ type: z.literal("error"), text: z.string() }),
+  z.object({
+    type: z.literal("done"),
+    commitSha: z.string().optional(),
+    commitError: z.string().optional(),
+    verification: verificationSchema.optional(),
+    plan: z.string().optional(),
+  }),
+  z.object({ type: z.literal("round"), text: z.string(), repairAttempt: z.number().optional() }),
+  z.object({
+    type: z.literal("verification"),
+    verification: verificationSchema.optional(),
+    terminalEntry: terminalEntrySchema.optional(),
+  }),
+  z.object({ type: z.literal("policy"), policyEntry: policyEntrySchema }),
+  z.object({ type: z.literal("approval"), approval: approvalSchema }),
+  // Sent first when a client attaches to a task's stream
+  z.object({ type: z.literal("snapshot"), task: taskSchema }),
+
+  // Event log markers (see task-events.ts)
+  z.object({ type: z.literal(USER_MESSAGE_EVENT), userMessage: z.object({ text: z.string() }) }),
+  z.object({ type: z.literal(TURN_END_EVENT) }),
+]);
+
+export type AgentUpdate = z.infer<typeof agentUpdateSchema>;
+export type AgentUpdateType = AgentUpdate["type"];
+
+// An update that doesn't match the schema. That's a bug on one end of the stream (or an
+// agent SDK that changed underneath us), so it's reported as such instead of being guessed at.
+export class AgentProtocolError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = "AgentProtocolError";
+    this.issues = issues;
+  }
+}
+
+// Validate an update, returning it with any fields outside the schema dropped.
+// Throws AgentProtocolError on a mismatch.
+export const parseAgentUpdate = (data: unknown): AgentUpdate => {
+  const result = agentUpdateSchema.safeParse(data);
+  if (result.success) return result.data;
+
+  const type = isObject(data) && typeof data.type === "string" ? data.type : "unknown";
+  const issues = result.error.issues.map(
+    (issue) => `${issue.path.join(".") || "update"}: ${issue.message}`
+  );
+  throw new AgentProtocolError(`Protocol error: invalid "${type}" update (${issues.join("; ")})`, issues);
+};
@@ -0,0 +1,17 @@
+import { createCursorProvider } from "./agents/cursor-provider";
+import { createFakeProvider } from "./agents/fake-provider";
+import type { AgentProvider } from "./agents/provider";
+
+// Pick what runs the agents, e.g. AGENT_PROVIDER="fake" for scripted agents that need
+// no network or API key (default: cursor)
+const createProvider = (): AgentProvider => {
+  if (process.env.AGENT_PROVIDER === "fake") {
+    console.log("🤖 Using the scripted fake agent provider");
+    return createFakeProvider();
+  }
+  return createCursorProvider();
+};
+
+export const agentProvider: AgentProvider = createProvider();
+
+export default agentProvider;
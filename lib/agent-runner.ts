@@ -0,0 +1,710 @@
+import { randomUUID } from "crypto";
+import { autoCommitTask } from "./auto-commit";
+import { parseAgentUpdate } from "./agent-events";
+import { agentProvider } from "./agent-provider";
+import type { AgentProviderSubmission, ProviderAgent } from "./agents/provider";
+import { dbOperations } from "./db";
+import { FILESYSTEM_SCOPE, getAgentRoot, getAllowedRoots } from "./filesystem-scope";
+import { createTaskWorktree, getHeadCommit, getUncommittedPaths } from "./git";
+import { isBlockedInPlanMode } from "./plan-mode";
+import { applyTaskEvent, TURN_END_EVENT, USER_MESSAGE_EVENT } from "./task-events";
+import { endTaskStream, publishTaskEvent } from "./task-streams";
+import { evaluateToolCall } from "./tool-policy";
+import { buildRepairMessage, runVerification } from "./verification";
+import type {
+  AgentTask,
+  AgentUpdate,
+  PolicyLogEntry,
+  ToolApprovalRequest,
+} from "./types";
+
+export const DEFAULT_MODEL = "claude-4.5-sonnet";
+
+// Keep the per-task policy log bounded - it records every tool call
+const MAX_POLICY_LOG_ENTRIES = 500;
+
+// How many times auto-repair sends failing checks back to the agent before giving up
+const MAX_REPAIR_ATTEMPTS = Number.parseInt(process.env.AGENT_MAX_REPAIR_ATTEMPTS || "", 10) || 3;
+
+// Upper bound on one agent turn. Runs no longer live inside a request, so this can be
+// as long as a migration needs; hung agents are caught sooner by the heartbeat below.
+const RUN_TIMEOUT_MINUTES = Number.parseInt(process.env.AGENT_RUN_TIMEOUT_MINUTES || "", 10) || 60;
+
+// What a run writes back to its task. The rest belongs to the routes and the client's saves,
+// which may change it while the run still holds the copy it started with.
+const RUN_FIELDS: (keyof AgentTask)[] = [
+  "status",
+  "error",
+  "messages",
+  "terminalOutput",
+  "tokenCount",
+  "lastActivityTime",
+  "sessionId",
+  "commitSha",
+  "commitError",
+  "verification",
+  "repairAttempts",
+  "plan",
+  "policyLog",
+  "pendingApproval",
+];
+
+// Save a run's progress on its task
+export const saveRunState = (task: AgentTask) => dbOperations.updateTaskFields(task, RUN_FIELDS);
+
+// Where an agent run sends its SSE payloads (nothing for background and queued runs).
+// Updates recorded on a task come with their event log seq as the id.
+export interface AgentRunSink {
+  send: (update: AgentUpdate, id?: number) => void;
+  close: () => void;
+}
+
+export interface AgentSession {
+  agent: ProviderAgent;
+  lastAccess: number;
+  workingDirectory: string;
+  agentRoot: string; // Where the agent process starts - the repo itself unless the scope is "home"
+  currentSink?: AgentRunSink;
+  currentSubmission?: AgentProviderSubmission; // Store submission for cancellation
+  isSubmitting: boolean;
+}
+
+// Store agent instances by session ID for multi-turn conversations.
+// Kept on globalThis so every route bundle (and dev HMR reloads) share the same sessions.
+const globalForAgents = globalThis as unknown as {
+  agentSessions?: Map<string, AgentSession>;
+};
+export const agentSessions =
+  globalForAgents.agentSessions ?? new Map<string, AgentSession>();
+globalForAgents.agentSessions = agentSessions;
+
+// Clean up old sessions (older than 30 minutes)
+const SESSION_TIMEOUT_MS = 30 * 60 * 1000;
+export const cleanupSessions = () => {
+  const now = Date.now();
+  for (const [sessionId, session] of agentSessions) {
+    if (now - session.lastAccess > SESSION_TIMEOUT_MS && !session.isSubmitting) {
+      console.log("Cleaning up old session:", sessionId);
+      agentSessions.delete(sessionId);
+    }
+  }
+};
+
+// Reset the per-submission state of a session
+export const releaseSession = (sessionId: string) => {
+  const session = agentSessions.get(sessionId);
+  if (session) {
+    session.isSubmitting = false;
+    session.currentSink = undefined;
+    session.currentSubmission = undefined;
+  }
+};
+
+// Cancel whatever a session is doing and tell its current listener why
+export const interruptSession = (session: AgentSession, reason: string) => {
+  if (session.currentSubmission) {
+    try {
+      session.currentSubmission.cancel();
+      console.log("✅ Submission cancelled");
+    } catch (cancelError) {
+      console.log("⚠️ Failed to cancel submission:", cancelError);
+    }
+  }
+
+  if (session.currentSink) {
+    try {
+      session.currentSink.send({ type: "error", text: reason });
+      session.currentSink.close();
+    } catch (e) {
+      console.log("⚠️ Previous listener already closed:", e);
+    }
+    session.currentSink = undefined;
+  }
+
+  session.currentSubmission = undefined;
+  session.isSubmitting = false;
+};
+
+// Global error handlers for unhandled rejections from SDK
+if (typeof process !== "undefined") {
+  // Remove existing handlers to avoid duplicates
+  process.removeAllListeners("unhandledRejection");
+
+  process.on("unhandledRejection", (reason, promise) => {
+    console.error("=== UNHANDLED REJECTION IN AGENT ===");
+    console.error("Reason:", reason);
+    if (reason instanceof Error) {
+      console.error("Message:", reason.message);
+      console.error("Stack:", reason.stack);
+
+      // Check if it's an HTTP/2 error
+      if (reason.message.includes("NGHTTP2") || reason.message.includes("HTTP2")) {
+        console.error("This is an HTTP/2 connection error from the Cursor SDK");
+        console.error("The agent's connection to Cursor API was interrupted");
+      }
+    }
+    console.error("Promise:", promise);
+    console.error("=================================");
+    // Don't crash the process, just log it
+  });
+}
+
+interface AcquireSessionOptions {
+  model: string;
+  sessionId?: string;
+  workingDirectory: string;
+}
+
+// Reuse an existing session for the same repo, or create a new agent
+export const acquireSession = async ({
+  model,
+  sessionId: existingSessionId,
+  workingDirectory,
+}: AcquireSessionOptions): Promise<{ sessionId: string; session: AgentSession; isNew: boolean }> => {
+  // Clean up old sessions periodically
+  cleanupSessions();
+  console.log("Active sessions:", agentSessions.size);
+
+  // We only reuse sessions for multi-turn conversations in the SAME repo
+  // (different repos need different sessions for proper context isolation)
+  const existing = existingSessionId ? agentSessions.get(existingSessionId) : undefined;
+  const canReuseSession = !!existing && existing.workingDirectory === workingDirectory;
+
+  console.log("Can reuse session?", canReuseSession);
+  if (existing) {
+    console.log("Existing session directory:", existing.workingDirectory);
+    console.log("Directories match?", existing.workingDirectory === workingDirectory);
+  }
+
+  if (canReuseSession && existingSessionId && existing) {
+    existing.lastAccess = Date.now();
+    console.log("✅ REUSING SESSION:", existingSessionId);
+
+    // Check if agent is currently submitting
+    if (existing.isSubmitting) {
+      console.log("⚠️ Agent is currently busy with another submission");
+      console.log("🛑 Attempting to FORCE-STOP previous submission");
+      interruptSession(existing, "Submission interrupted - new request received");
+
+      // Give the SDK a brief moment to clean up
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      console.log("✅ Previous submission FORCE-STOPPED - ready for new input");
+    }
+
+    return { sessionId: existingSessionId, session: existing, isNew: false };
+  }
+
+  // Use the provided sessionId (deterministic) or generate a random one
+  const sessionId = existingSessionId || randomUUID();
+  console.log("🆕 CREATING NEW AGENT SESSION:", sessionId);
+  console.log("New agent working directory:", workingDirectory);
+
+  // The agent starts in the repo itself, or in the home directory when the scope allows all of it.
+  // Either way tool calls outside the allowed roots are rejected in runSubmission.
+  const agentRoot = getAgentRoot(workingDirectory);
+  const agent = agentProvider.createAgent({ model, workingDirectory: agentRoot });
+  console.log(`✅ ${agentProvider.name} agent created in ${agentRoot} (filesystem scope: ${FILESYSTEM_SCOPE.mode})`);
+
+  const session: AgentSession = {
+    agent,
+    lastAccess: Date.now(),
+    workingDirectory,
+    agentRoot,
+    isSubmitting: false,
+  };
+  agentSessions.set(sessionId, session);
+  console.log("Agent session stored. Total sessions:", agentSessions.size);
+
+  return { sessionId, session, isNew: true };
+};
+
+// Resolve where a task's agent works, creating its git worktree on first use.
+// Also records the commit the task starts from so its changes can be reviewed later.
+export const prepareWorkingDirectory = async (task: AgentTask, fallback: string) => {
+  let directory = fallback;
+
+  // Plans are read-only, so they look at the real checkout
+  if (task.useWorktree && task.mode !== "plan") {
+    if (task.worktree?.removedAt) {
+      throw new Error(`The worktree for this task (${task.worktree.branch}) has been removed`);
+    }
+
+    if (!task.worktree) {
+      task.worktree = await createTaskWorktree(task);
+    }
+    directory = task.worktree.workingDirectory;
+  }
+
+  if (!task.baseCommit) {
+    // Not every scanned project is a git repo - those just don't get a Changes panel
+    task.baseCommit =
+      task.worktree?.baseCommit ?? (await getHeadCommit(directory).catch(() => undefined));
+
+    // In the user's own checkout, whatever they hadn't committed yet isn't the agent's to
+    // review, revert or commit
+    if (task.baseCommit && !task.worktree) {
+      task.preexistingChanges = await getUncommittedPaths(directory);
+    }
+  }
+
+  dbOperations.updateTaskFields(task, ["worktree", "baseCommit", "preexistingChanges"]);
+  return directory;
+};
+
+// Only the first message of a new session gets the repository location preamble
+export const buildContextualMessage = (directory: string, message: string) => {
+  if (FILESYSTEM_SCOPE.mode !== "home") {
+    const roots = getAllowedRoots(directory);
+    const extra =
+      roots.length > 1 ? `\nYou may also read and write these paths: ${roots.slice(1).join(", ")}` : "";
+
+    return `📁 REPOSITORY: ${directory}
+
+You are already in this directory. Tool calls that touch paths outside it are rejected.${extra}
+
+${message}`;
+  }
+
+  return `🚨 CRITICAL: REPOSITORY LOCATION 🚨
+
+The repository you need to work on is located at this ABSOLUTE PATH:
+${directory}
+
+⚠️ MANDATORY INSTRUCTIONS:
+1. You have BROAD filesystem access from the home directory (~/) - you can access any repo under home
+2. The target repository is at: ${directory}
+3. You are NOT currently in that directory - you need to navigate to it or use absolute paths every time you run any commands
+4. For ALL file operations (ls, read, write, grep, etc.), use the ABSOLUTE PATH: ${directory}
+5. For shell commands, ALWAYS cd into the directory first: "cd ${directory} && your-command"
+6. Example: To list files, use: "cd ${directory} && ls" or use absolute path
+7. Example: To read package.json, use: "${directory}/package.json" as the path
+8. Do NOT use relative paths - ALWAYS use the full absolute path: ${directory}
+
+TARGET REPOSITORY PATH: ${directory}
+
+Now, please fulfill the user's request for the repository at ${directory}:
+
+${message}`;
+};
+
+// Keep the seeded transcript well within the model's context
+const MAX_TRANSCRIPT_CHARS = 30000;
+const MAX_MESSAGE_CHARS = 4000;
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max)}… [truncated]` : text;
+
+// Seed message for a fresh agent continuing a task whose agent was lost (e.g. server restart)
+export const buildResumeMessage = (task: AgentTask) => {
+  const entries = task.messages.map((msg) => {
+    if (msg.role === "user") {
+      return `### User\n${truncate(msg.content, MAX_MESSAGE_CHARS)}`;
+    }
+
+    const lines = [`### Assistant`];
+    const toolCalls = Object.values(msg.metadata?.toolCalls || {});
+    for (const toolCall of toolCalls) {
+      const args = toolCall.args ? truncate(JSON.stringify(toolCall.args), 200) : "";
+      lines.push(`- tool ${toolCall.type} ${args} → ${toolCall.result?.status || "no result"}`);
+    }
+    if (msg.content) {
+      lines.push(truncate(msg.content, MAX_MESSAGE_CHARS));
+    }
+    for (const summary of msg.metadata?.summaries || []) {
+      lines.push(`Summary: ${truncate(summary, MAX_MESSAGE_CHARS)}`);
+    }
+    return lines.join("\n");
+  });
+
+  // Keep the most recent part of the conversation if it's too long
+  let transcript = entries.join("\n\n");
+  if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+    transcript = `[earlier conversation omitted]\n\n${transcript.slice(-MAX_TRANSCRIPT_CHARS)}`;
+  }
+
+  return `You are resuming a task that was interrupted before it finished (the previous agent was stopped by a server restart).
+
+Here is the transcript of the work so far:
+
+${transcript}
+
+Check the current state of the repository, since some of the changes above may already be applied. Then continue the task from where it stopped and finish it.`;
+};
+
+// Submit a message to a session's agent. Throws "Agent busy" errors from the provider unchanged.
+export const submitToSession = (session: AgentSession, message: string) => {
+  const submission = session.agent.submit(message);
+  // Store submission for potential cancellation (like Cursor IDE stop button)
+  session.currentSubmission = submission;
+  session.isSubmitting = true;
+  return submission;
+};
+
+export type AgentSubmission = AgentProviderSubmission;
+
+interface RunSubmissionOptions {
+  sessionId: string;
+  session: AgentSession;
+  submission: AgentSubmission;
+  message: string;
+  task: AgentTask | null;
+  sink: AgentRunSink;
+  repairAttempt?: number; // Set for auto-repair rounds started by a failed verification
+}
+
+// Consume an agent submission: forward updates to the sink and persist them on the task.
+// Resolves with the final task status once the stream ends.
+export const runSubmission = async ({
+  sessionId,
+  session,
+  submission,
+  message,
+  task,
+  sink,
+  repairAttempt = 0,
+}: RunSubmissionOptions): Promise<"completed" | "failed" | "awaiting-approval"> => {
+  const { stream } = submission;
+  session.currentSink = sink;
+
+  let updateCount = 0;
+  let streamClosed = false;
+  let finalStatus: "completed" | "failed" | "awaiting-approval" = "completed";
+
+  let totalTokens = task?.tokenCount || 0;
+
+  // Log an update on the task and fold it into task.messages - the stored messages are
+  // always what replaying the event log gives back. Tabs attached to the task get it too.
+  // Throws an AgentProtocolError for updates the event schema rejects.
+  const record = (update: AgentUpdate) => {
+    const checked = parseAgentUpdate(update);
+    if (!task) return null;
+    try {
+      const event = dbOperations.appendTaskEvent(task.id, checked);
+      task.messages = applyTaskEvent(task.messages, event);
+      publishTaskEvent(task, event);
+      return event;
+    } catch (logError) {
+      console.error("❌ Failed to append to event log:", logError);
+      return null;
+    }
+  };
+
+  // Helper to save current state to database
+  const saveToDatabase = () => {
+    if (!task) return;
+
+    try {
+      task.tokenCount = totalTokens;
+      task.lastActivityTime = Date.now();
+
+      saveRunState(task);
+      console.log("💾 Saved to database - Messages:", task.messages.length, "Tokens:", totalTokens);
+    } catch (saveError) {
+      console.error("❌ Failed to save to database:", saveError);
+    }
+  };
+
+  // Everything sent to the listener is also recorded in the task's event log
+  const send = (update: AgentUpdate) => {
+    if (streamClosed) return;
+    const event = record(update);
+    try {
+      sink.send(update, event?.seq);
+    } catch (sendError) {
+      // The listener went away (e.g. client disconnected) - keep the agent running
+      console.log("⚠️ Failed to forward update to listener:", sendError);
+    }
+  };
+
+  const close = () => {
+    if (streamClosed) return;
+    streamClosed = true;
+    try {
+      sink.close();
+    } catch {
+      // Already closed
+    }
+    if (task) {
+      endTaskStream(task.id);
+    }
+    // Only release the session if a newer submission hasn't taken it over
+    if (session.currentSubmission === submission) {
+      releaseSession(sessionId);
+    }
+  };
+
+  const sendError = (error: unknown) => {
+    if (streamClosed) return;
+
+    console.error("=== STREAM ERROR ===");
+    console.error("Error type:", error?.constructor?.name);
+    console.error("Error details:", error);
+
+    // Extract meaningful error message
+    let errorMessage = "Unknown error";
+    if (error instanceof Error) {
+      errorMessage = error.message;
+      // Check for HTTP/2 errors
+      if (error.message.includes("NGHTTP2") || error.message.includes("HTTP2")) {
+        errorMessage = "Connection to Cursor API lost. The agent may have timed out or encountered an internal error.";
+      }
+    }
+
+    finalStatus = "failed";
+    // Also ends the assistant message in the log, with the error as its content if it was empty
+    send({ type: "error", text: errorMessage });
+    if (task) {
+      task.status = "failed";
+      task.error = errorMessage;
+      saveToDatabase();
+      console.log("💾 Error state saved to database");
+    }
+    close();
+  };
+
+  console.log("=== STREAM START ===");
+  record({ type: USER_MESSAGE_EVENT, userMessage: { text: message } });
+  // Send session ID first so client can track conversation
+  send({ type: "session", sessionId, worktree: task?.worktree, baseCommit: task?.baseCommit });
+
+  // Add timeout to detect stuck streams
+  let lastUpdateTime = Date.now();
+  const streamTimeout = setTimeout(() => {
+    console.error(`=== STREAM TIMEOUT (${RUN_TIMEOUT_MINUTES} minutes) ===`);
+    clearInterval(heartbeatInterval);
+
+    // Stop the agent too, or it keeps working and the task's next message finds it busy
+    try {
+      submission.cancel();
+    } catch (e) {
+      console.error("Failed to cancel timed out submission:", e);
+    }
+
+    sendError(new Error(`Agent stream timed out after ${RUN_TIMEOUT_MINUTES} minutes`));
+  }, RUN_TIMEOUT_MINUTES * 60 * 1000);
+
+  // Also add a heartbeat to detect if updates stop coming
+  const heartbeatInterval = setInterval(() => {
+    const timeSinceLastUpdate = Date.now() - lastUpdateTime;
+    const secondsStuck = Math.floor(timeSinceLastUpdate / 1000);
+
+    if (timeSinceLastUpdate > 60000) { // 1 minute with no updates
+      console.warn(`⚠️ No updates for ${secondsStuck}s - stream may be stuck`);
+      console.warn(`Last update count: ${updateCount}`);
+    }
+
+    // AUTO-KILL if stuck for 5 minutes (SDK is probably hung)
+    if (timeSinceLastUpdate > 300000) {
+      console.error(`🔥 AGENT HUNG FOR 5 MINUTES - FORCE KILLING`);
+      clearInterval(heartbeatInterval);
+      clearTimeout(streamTimeout);
+
+      try {
+        session.currentSubmission?.cancel();
+      } catch (e) {
+        console.error("Failed to cancel hung submission:", e);
+      }
+
+      sendError(new Error("Agent hung for 5 minutes with no updates. Task cancelled."));
+    }
+  }, 5000);
+
+  try {
+    for await (const providerUpdate of stream) {
+      if (streamClosed) break;
+      lastUpdateTime = Date.now(); // Reset heartbeat timer
+      updateCount++;
+
+      // Anything the provider sends that isn't in the protocol fails the run right here
+      const update = parseAgentUpdate(providerUpdate);
+
+      // Log update with more details
+      const logDetails: string[] = [update.type];
+      if ("callId" in update) {
+        logDetails.push(`callId: ${update.callId}`);
+      }
+      if ("text" in update && update.text) {
+        logDetails.push(`text: "${update.text.substring(0, 50)}..."`);
+      }
+      if (update.type === "tool-call-started") {
+        logDetails.push(`tool: ${update.toolCall.type}`);
+      }
+      if (update.type === "tool-call-completed") {
+        logDetails.push(`result: ${update.toolCall.result?.status || "unknown"}`);
+      }
+      console.log(`[Update #${updateCount}]`, logDetails.join(" | "));
+
+      if (update.type === "tool-call-started") {
+        const toolType = update.toolCall.type || "unknown";
+        const evaluation = evaluateToolCall({
+          type: toolType,
+          args: update.toolCall.args,
+          workingDirectory: session.workingDirectory,
+          agentRoot: session.agentRoot,
+          allowedRoots: getAllowedRoots(session.workingDirectory),
+        });
+        // The user already approved this exact call for the task - let the retry through
+        const approved =
+          evaluation.decision === "require-approval" &&
+          !!task?.approvedToolCalls?.includes(evaluation.target);
+
+        // Log every decision on the task
+        const policyEntry: PolicyLogEntry = {
+          timestamp: Date.now(),
+          callId: update.callId,
+          toolType,
+          target: evaluation.target,
+          decision: approved ? "allow" : evaluation.decision,
+          ruleId: evaluation.rule?.id,
+          reason: approved ? `Approved by the user: ${evaluation.reason}` : evaluation.reason,
+        };
+        if (task) {
+          task.policyLog = [...(task.policyLog || []), policyEntry].slice(-MAX_POLICY_LOG_ENTRIES);
+        }
+
+        // Denied calls and anything that changes files in plan mode (which is read-only)
+        // stop the run; calls that need approval pause it until the user decides
+        const rejection =
+          evaluation.decision === "deny"
+            ? `Blocked by tool policy: ${evaluation.reason} - ${evaluation.target}`
+            : task?.mode === "plan" && isBlockedInPlanMode(toolType)
+            ? `Plan mode is read-only: the agent tried to use the "${toolType}" tool, so the run was stopped.`
+            : evaluation.decision === "require-approval" && !approved && !task
+            ? `Tool call needs approval, but there is no task to pause: ${evaluation.reason} - ${evaluation.target}`
+            : null;
+        const needsApproval = !rejection && evaluation.decision === "require-approval" && !approved;
+
+        if (rejection || needsApproval) {
+          clearTimeout(streamTimeout);
+          clearInterval(heartbeatInterval);
+          send(update);
+          send({ type: "policy", policyEntry });
+          try {
+            session.currentSubmission?.cancel();
+          } catch (e) {
+            console.error("Failed to cancel held tool call:", e);
+          }
+        }
+
+        if (rejection) {
+          console.warn(`🚫 ${rejection}`);
+          sendError(new Error(rejection));
+          return finalStatus;
+        }
+
+        if (needsApproval && task) {
+          // Keep the session so the agent picks up where it stopped once the user decides
+          const approval: ToolApprovalRequest = {
+            callId: update.callId,
+            toolType,
+            args: update.toolCall.args,
+            target: evaluation.target,
+            ruleId: evaluation.rule?.id,
+            reason: evaluation.reason,
+            requestedAt: Date.now(),
+          };
+          console.warn(`✋ Awaiting approval for ${toolType}: ${evaluation.target}`);
+          finalStatus = "awaiting-approval";
+          task.status = "awaiting-approval";
+          task.pendingApproval = approval;
+          send({ type: "approval", approval });
+          saveToDatabase();
+          close();
+          return finalStatus;
+        }
+
+        send({ type: "policy", policyEntry });
+      }
+
+      send(update);
+
+      // Persist the messages built from the log
+      if (task) {
+        if (update.type === "token-delta") {
+          totalTokens += update.tokens;
+        }
+
+        // Save to database every 10 updates or on important events
+        if (updateCount % 10 === 0 ||
+            update.type === "tool-call-completed" ||
+            update.type === "summary") {
+          saveToDatabase();
+        }
+      }
+    }
+
+    clearTimeout(streamTimeout);
+    clearInterval(heartbeatInterval);
+    await submission.done;
+
+    if (!streamClosed) {
+      console.log("=== STREAM COMPLETE ===");
+      console.log("Total updates:", updateCount);
+
+      // Mark assistant message as complete and save final state
+      record({ type: TURN_END_EVENT });
+      if (task) {
+        saveToDatabase();
+
+        if (task.mode === "plan") {
+          // The agent's final reply is the plan - nothing to verify or commit
+          const reply = task.messages[task.messages.length - 1];
+          task.plan = (reply?.role === "assistant" && reply.content) || task.plan;
+        } else {
+          // Check the agent's work before calling it done
+          const verification = await runVerification(task, (progress, terminalEntry) => {
+            send({ type: "verification", verification: progress, terminalEntry });
+            saveRunState(task);
+          });
+
+          // Auto-repair: hand the failing output back to the same agent as a new round
+          if (verification?.status === "failed" && task.autoRepair && repairAttempt < MAX_REPAIR_ATTEMPTS) {
+            const attempt = repairAttempt + 1;
+            const repairMessage = buildRepairMessage(task, verification, attempt, MAX_REPAIR_ATTEMPTS);
+            task.repairAttempts = attempt;
+            saveRunState(task);
+            console.log(`🔧 Auto-repair attempt ${attempt}/${MAX_REPAIR_ATTEMPTS} for ${task.repoName}`);
+
+            send({ type: "round", text: repairMessage, repairAttempt: attempt });
+            return await runSubmission({
+              sessionId,
+              session,
+              submission: submitToSession(session, repairMessage),
+              message: repairMessage,
+              task,
+              sink,
+              repairAttempt: attempt,
+            });
+          }
+
+          // Commit after saving so the message includes the agent's final summaries,
+          // and only when verification (if any) passed. An unchanged checkout keeps its
+          // previous result.
+          if (task.verification?.status !== "failed") {
+            await autoCommitTask(task);
+          }
+        }
+
+        task.status = "completed";
+        saveRunState(task);
+        console.log("✅ Final state saved to database");
+      }
+
+      send({
+        type: "done",
+        commitSha: task?.commitSha,
+        commitError: task?.commitError,
+        verification: task?.verification,
+        plan: task?.plan,
+      });
+      close();
+    }
+  } catch (streamError) {
+    clearTimeout(streamTimeout);
+    clearInterval(heartbeatInterval);
+    console.error("=== ERROR DURING STREAM ITERATION ===");
+    sendError(streamError);
+  }
+
+  return finalStatus;
+};
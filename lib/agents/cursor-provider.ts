@@ -0,0 +1,53 @@
+import { CursorAgent, type WorkingLocation } from "@cursor-ai/january";
+import type { AgentProvider, ProviderUpdate } from "./provider";
+
+// SDK updates the app's protocol has no use for: it logs the user's message itself, and
+// only shows finished tool calls, summaries and shell output
+const UNFORWARDED_UPDATES = new Set([
+  "user-message-appended",
+  "partial-tool-call",
+  "summary-started",
+  "summary-completed",
+  "shell-output-delta",
+]);
+
+async function* forwardedUpdates(stream: AsyncIterable<ProviderUpdate>) {
+  for await (const update of stream) {
+    if (!UNFORWARDED_UPDATES.has(update.type)) yield update;
+  }
+}
+
+// Agents from the Cursor SDK, authenticated with CURSOR_API_KEY
+export const createCursorProvider = (): AgentProvider => ({
+  name: "Cursor SDK",
+
+  configError: () => (process.env.CURSOR_API_KEY ? null : "CURSOR_API_KEY not configured"),
+
+  createAgent: ({ model, workingDirectory }) => {
+    const workingLocation: WorkingLocation = {
+      type: "local",
+      localDirectory: workingDirectory,
+    };
+    const agent = new CursorAgent({
+      apiKey: process.env.CURSOR_API_KEY || "",
+      model,
+      workingLocation,
+    });
+
+    return {
+      submit: (message) => {
+        const submission = agent.submit({ message });
+        const { stream } = submission;
+        return {
+          stream: forwardedUpdates(stream as AsyncIterable<ProviderUpdate>),
+          done: stream.done,
+          cancel: () => {
+            // Not every SDK version can cancel a submission
+            const { cancel } = submission as unknown as { cancel?: () => void };
+            cancel?.call(submission);
+          },
+        };
+      },
+    };
+  },
+});
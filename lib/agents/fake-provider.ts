@@ -0,0 +1,107 @@
+import fs from "fs";
+import path from "path";
+import { DEFAULT_FAKE_SCRIPT, FAKE_SCRIPTS, type FakeStep } from "./fake-scripts";
+import type { AgentProvider, AgentProviderSubmission, ProviderUpdate } from "./provider";
+
+// Scripted agents for working without network or an API key: each message plays back a
+// fixed sequence of updates (see fake-scripts.ts, or a JSON file of steps), including errors
+// and hangs, so failure handling and stuck detection can be tried offline.
+
+const DEFAULT_STEP_DELAY_MS = 100;
+
+// Put a built-in script's name in a prompt, e.g. "[fake:hang]", to pick it for that message
+const SCRIPT_MARKER = /\[fake:([\w.\/-]+)\]/;
+
+// A built-in script by name, or a JSON file with an array of steps
+const loadSteps = (message: string, workingDirectory: string): FakeStep[] => {
+  const name = message.match(SCRIPT_MARKER)?.[1] || process.env.AGENT_FAKE_SCRIPT || DEFAULT_FAKE_SCRIPT;
+  if (name.endsWith(".json")) {
+    return JSON.parse(fs.readFileSync(path.resolve(name), "utf-8")) as FakeStep[];
+  }
+
+  const script = FAKE_SCRIPTS[name];
+  if (!script) {
+    throw new Error(`Unknown fake agent script "${name}" (available: ${Object.keys(FAKE_SCRIPTS).join(", ")})`);
+  }
+  return script({ message, workingDirectory });
+};
+
+const playSteps = (steps: FakeStep[]): AgentProviderSubmission & { isFinished: () => boolean } => {
+  let finished = false;
+  let cancelled = false;
+  let wake: (() => void) | null = null;
+
+  // Sleep for ms (forever when null) or until cancelled
+  const wait = (ms: number | null) =>
+    new Promise<void>((resolve) => {
+      if (cancelled) return resolve();
+      const timer = ms === null ? null : setTimeout(() => stop(), ms);
+      const stop = () => {
+        if (timer) clearTimeout(timer);
+        wake = null;
+        resolve();
+      };
+      wake = stop;
+    });
+
+  let settle: { resolve: () => void; reject: (error: Error) => void } = {
+    resolve: () => {},
+    reject: () => {},
+  };
+  const done = new Promise<void>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+  // Whoever awaits done sees the rejection; nobody else should get an unhandled one
+  done.catch(() => {});
+
+  async function* play(): AsyncGenerator<ProviderUpdate> {
+    try {
+      for (const step of steps) {
+        await wait(step.delayMs ?? DEFAULT_STEP_DELAY_MS);
+        if (!cancelled && "hang" in step) await wait(null);
+        if (cancelled) throw new Error("Submission cancelled");
+        if ("error" in step) throw new Error(step.error);
+        if ("update" in step) yield step.update;
+      }
+    } catch (error) {
+      settle.reject(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    } finally {
+      // Also reached when the consumer stops iterating early
+      finished = true;
+      settle.resolve();
+    }
+  }
+
+  return {
+    stream: play(),
+    done,
+    cancel: () => {
+      cancelled = true;
+      finished = true;
+      wake?.();
+    },
+    isFinished: () => finished,
+  };
+};
+
+export const createFakeProvider = (): AgentProvider => ({
+  name: "Fake agent (scripted)",
+
+  configError: () => null,
+
+  createAgent: ({ model, workingDirectory }) => {
+    console.log(`🤖 Fake agent created in ${workingDirectory} (model ${model} is ignored)`);
+    let current: ReturnType<typeof playSteps> | null = null;
+
+    return {
+      submit: (message) => {
+        if (current && !current.isFinished()) {
+          throw new Error("Agent busy: a message is already being processed");
+        }
+        current = playSteps(loadSteps(message, workingDirectory));
+        return current;
+      },
+    };
+  },
+});
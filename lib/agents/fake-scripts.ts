@@ -0,0 +1,95 @@
+import path from "path";
+import type { AgentUpdate, ToolCallResult } from "../types";
+
+// One step of a scripted run: an update to emit, an error to fail with, or a hang that
+// lasts until the submission is cancelled. Each step waits delayMs first.
+export type FakeStep = { delayMs?: number } & (
+  | { update: AgentUpdate }
+  | { error: string }
+  | { hang: true }
+);
+
+export interface FakeScriptContext {
+  message: string;
+  workingDirectory: string;
+}
+
+export type FakeScript = (context: FakeScriptContext) => FakeStep[];
+
+// A reply streamed a word at a time
+const text = (reply: string, delayMs = 30): FakeStep[] =>
+  (reply.match(/\S+\s*|\s+/g) || []).map((chunk) => ({
+    delayMs,
+    update: { type: "text-delta", text: chunk },
+  }));
+
+const thinking = (thought: string, durationMs = 400): FakeStep[] => [
+  { update: { type: "thinking-delta", text: thought } },
+  { delayMs: durationMs, update: { type: "thinking-completed", thinkingDurationMs: durationMs } },
+];
+
+const toolCall = (
+  callId: string,
+  type: string,
+  args: Record<string, unknown>,
+  result: ToolCallResult,
+  durationMs = 200
+): FakeStep[] => [
+  { update: { type: "tool-call-started", callId, toolCall: { type, args } } },
+  { delayMs: durationMs, update: { type: "tool-call-completed", callId, toolCall: { type, args, result } } },
+];
+
+const tokens = (count: number): FakeStep => ({ update: { type: "token-delta", tokens: count } });
+
+export const FAKE_SCRIPTS: Record<string, FakeScript> = {
+  // Thinks, then answers
+  text: ({ message }) => [
+    ...thinking("The user wants a short answer."),
+    ...text(`This is a scripted reply from the fake agent. You asked: ${message.slice(0, 80)}`),
+    tokens(120),
+  ],
+
+  // Reads and runs a couple of harmless tools in the repo, then reports back
+  "tool-calls": ({ workingDirectory }) => [
+    ...thinking("Start by looking at the project."),
+    ...toolCall(
+      "fake-read-1",
+      "read",
+      { path: path.join(workingDirectory, "package.json") },
+      { status: "success", value: '{ "name": "fake-project" }' }
+    ),
+    ...toolCall("fake-shell-1", "shell", { command: "ls" }, { status: "success", value: "package.json\nsrc\n" }, 600),
+    { update: { type: "summary", summary: "Read package.json and listed the project files" } },
+    ...text("The project has a package.json and a src directory. Nothing needed changing."),
+    tokens(850),
+  ],
+
+  // Fails part way through a reply, like a dropped model connection
+  error: () => [
+    ...thinking("Working on it."),
+    ...text("Starting on the change now, first"),
+    { delayMs: 300, error: "Fake agent error: the connection to the model was lost" },
+  ],
+
+  // Starts a tool call that never finishes - for stuck detection and cancellation
+  hang: () => [
+    ...text("Installing dependencies."),
+    { update: { type: "tool-call-started", callId: "fake-hang-1", toolCall: { type: "shell", args: { command: "npm install" } } } },
+    { hang: true },
+  ],
+
+  // Tries a command the default tool policy holds for approval
+  approval: () => [
+    ...text("Pushing the branch."),
+    ...toolCall("fake-push-1", "shell", { command: "git push" }, { status: "success", value: "Everything up-to-date" }),
+    ...text("Pushed."),
+  ],
+
+  // Tries a command the default tool policy blocks
+  blocked: () => [
+    ...text("Cleaning up the build cache."),
+    ...toolCall("fake-rm-1", "shell", { command: "rm -rf /tmp/fake-agent-cache" }, { status: "success", value: "" }),
+  ],
+};
+
+export const DEFAULT_FAKE_SCRIPT = "tool-calls";
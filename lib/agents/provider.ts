@@ -0,0 +1,32 @@
+// An update as the provider produced it. The runner checks each one against the event
+// schema (see agent-events.ts) before doing anything with it.
+export interface ProviderUpdate {
+  type: string;
+  [field: string]: unknown;
+}
+
+// One message an agent is working on. Iterating stream yields its updates as they happen;
+// done settles once the agent has finished (rejecting if it failed), and cancel stops it.
+export interface AgentProviderSubmission {
+  stream: AsyncIterable<ProviderUpdate>;
+  done: Promise<void>;
+  cancel: () => void;
+}
+
+// A conversation with one agent. Submitting while a message is still running throws an
+// "Agent busy" error, like the Cursor SDK does.
+export interface ProviderAgent {
+  submit: (message: string) => AgentProviderSubmission;
+}
+
+export interface CreateAgentOptions {
+  model: string;
+  workingDirectory: string; // Where the agent starts
+}
+
+// Everything the runner needs from whatever runs the agents
+export interface AgentProvider {
+  name: string; // Human-readable, for logs
+  configError: () => string | null; // Why agents can't start (e.g. a missing API key), or null
+  createAgent: (options: CreateAgentOptions) => ProviderAgent;
+}
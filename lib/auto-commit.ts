@@ -0,0 +1,85 @@
+import { commitChanges, getTaskDirectory, getUncommittedPaths, isGitRepository } from "./git";
+import type { AgentTask, TaskAction } from "./types";
+
+// Actions whose completed tasks get committed, e.g. AGENT_AUTO_COMMIT_ACTIONS="update-deps,summarize" (or "all")
+const parseAutoCommitActions = (value: string | undefined): Set<string> =>
+  new Set(
+    (value || "")
+      .split(",")
+      .map((action) => action.trim())
+      .filter(Boolean)
+  );
+
+const AUTO_COMMIT_ACTIONS = parseAutoCommitActions(process.env.AGENT_AUTO_COMMIT_ACTIONS);
+
+export const shouldAutoCommit = (action: TaskAction) =>
+  AUTO_COMMIT_ACTIONS.has("all") || AUTO_COMMIT_ACTIONS.has(action);
+
+const MAX_SUBJECT_LENGTH = 72;
+
+const COMMIT_SUBJECTS: Record<Exclude<TaskAction, "custom">, (repoName: string) => string> = {
+  "upgrade-typescript": (repoName) => `Convert ${repoName} to TypeScript`,
+  "upgrade-framework": (repoName) => `Upgrade framework in ${repoName}`,
+  summarize: (repoName) => `Update README for ${repoName}`,
+  "update-deps": (repoName) => `Update dependencies in ${repoName}`,
+};
+
+// Subject from the action, body from the summaries of the agent's last reply
+export const buildCommitMessage = (task: AgentTask) => {
+  let subject =
+    task.action === "custom"
+      ? (task.customPrompt || task.prompt || `Agent changes in ${task.repoName}`).split("\n")[0]
+      : COMMIT_SUBJECTS[task.action](task.repoName);
+  if (subject.length > MAX_SUBJECT_LENGTH) {
+    subject = `${subject.slice(0, MAX_SUBJECT_LENGTH - 1)}…`;
+  }
+
+  const lastReply = [...task.messages]
+    .reverse()
+    .find((msg) => msg.role === "assistant" && msg.metadata?.summaries?.length);
+  const summaries = lastReply?.metadata?.summaries || [];
+
+  const body = summaries.map((summary) => `- ${summary.trim().replace(/\n+/g, " ")}`).join("\n");
+  const trailer = `Agent-Task: ${task.id}`;
+
+  return body ? `${subject}\n\n${body}\n\n${trailer}` : `${subject}\n\n${trailer}`;
+};
+
+// Commit a completed task's changes if its action opted in. Never throws - a failed
+// commit is recorded on the task instead of failing work the agent already finished.
+export const autoCommitTask = async (task: AgentTask) => {
+  if (!shouldAutoCommit(task.action)) return;
+
+  // Nothing to commit to - the same as a repo without changes, not an error
+  if (!task.worktree && !(await isGitRepository(task.repoPath))) {
+    console.log(`📝 Skipped auto-commit for ${task.repoName}: not a git repository`);
+    return;
+  }
+
+  // In the user's own checkout, only commit on top of a clean start - otherwise their work
+  // would end up in the agent's commit
+  if (!task.worktree && task.preexistingChanges?.length !== 0) {
+    task.commitError = task.preexistingChanges
+      ? "Not committed: the checkout already had uncommitted changes when the task started"
+      : "Not committed: the checkout's state when the task started wasn't recorded";
+    console.log(`📝 Skipped auto-commit for ${task.repoName}`);
+    return;
+  }
+
+  try {
+    const directory = getTaskDirectory(task);
+    // Only what changed since the task started - a worktree is the agent's alone
+    const paths = task.worktree ? undefined : await getUncommittedPaths(directory);
+    const sha = await commitChanges(directory, buildCommitMessage(task), paths);
+    if (sha) {
+      task.commitSha = sha;
+      task.commitError = undefined;
+      console.log(`📝 Committed ${task.repoName} changes as ${sha.slice(0, 7)}`);
+    } else {
+      console.log(`📝 Nothing to commit for ${task.repoName}`);
+    }
+  } catch (error) {
+    task.commitError = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Auto-commit failed for ${task.repoName}:`, error);
+  }
+};
@@ -1,6 +1,13 @@
+import { randomUUID } from "crypto";
 import path from "path";
 import fs from "fs";
-import type { AgentTask } from "./types";
+import os from "os";
+import type { StorageAdapter } from "./storage/adapter";
+import { createEventLog, type EventLog } from "./storage/event-log";
+import { isProcessAlive } from "./storage/json-file";
+import { createJsonStore } from "./storage/json-store";
+import { createSqliteStore } from "./storage/sqlite-store";
+import type { AgentTask, AgentUpdate, TaskEvent, TaskRunOwner } from "./types";
 
 // Storage directory - stored in user's home directory for persistence
 const getStorageDir = () => {
@@ -21,255 +28,233 @@ const getStorageDir = () => {
   return storageDir;
 };
 
-const STORAGE_DIR = getStorageDir();
-const TASKS_FILE = path.join(STORAGE_DIR, "tasks.json");
-const REPOS_FILE = path.join(STORAGE_DIR, "scanned-repos.json");
-
-// In-memory cache
-interface DataStore {
-  tasks: AgentTask[];
-  scannedRepos: Array<{
-    scanKey: string;
-    scannedPath: string;
-    repos: unknown[];
-    scannedAt: number;
-  }>;
-}
+export const STORAGE_DIR = getStorageDir();
 
-const dataStore: DataStore = {
-  tasks: [],
-  scannedRepos: [],
-};
+// Pick the backend, e.g. AGENT_STORAGE="sqlite" for the SQLite database (default: the original
+// tasks.json files)
+const createStore = (): StorageAdapter => {
+  if (process.env.AGENT_STORAGE !== "sqlite") {
+    return createJsonStore(STORAGE_DIR);
+  }
 
-// Load data from disk
-const loadData = () => {
   try {
-    if (fs.existsSync(TASKS_FILE)) {
-      const tasksData = JSON.parse(fs.readFileSync(TASKS_FILE, "utf-8"));
-      // Messages are now stored with metadata as objects, no Map conversion needed
-      dataStore.tasks = tasksData;
-    }
-    
-    if (fs.existsSync(REPOS_FILE)) {
-      dataStore.scannedRepos = JSON.parse(fs.readFileSync(REPOS_FILE, "utf-8"));
-    }
+    return createSqliteStore(STORAGE_DIR);
   } catch (error) {
-    console.error("Failed to load data from disk:", error);
+    // better-sqlite3 is a native module - keep working if it wasn't built for this machine
+    console.error("Failed to open SQLite storage, falling back to JSON files:", error);
+    return createJsonStore(STORAGE_DIR);
   }
 };
 
-// Save data to disk
-const saveData = () => {
-  try {
-    // Save tasks - messages already in JSON-serializable format
-    fs.writeFileSync(TASKS_FILE, JSON.stringify(dataStore.tasks, null, 2), "utf-8");
-    
-    // Save scanned repos
-    fs.writeFileSync(REPOS_FILE, JSON.stringify(dataStore.scannedRepos, null, 2), "utf-8");
-  } catch (error) {
-    console.error("Failed to save data to disk:", error);
+// Shared across route bundles so every route writes through the same connection
+const globalForDb = globalThis as unknown as {
+  storage?: StorageAdapter;
+  eventLog?: EventLog;
+  orphanCheckDone?: boolean;
+  processId?: string;
+};
+const storage: StorageAdapter = globalForDb.storage ?? createStore();
+globalForDb.storage = storage;
+
+// Raw agent updates live next to the task records, whichever backend holds those
+const eventLog: EventLog = globalForDb.eventLog ?? createEventLog(STORAGE_DIR);
+globalForDb.eventLog = eventLog;
+
+// Kept across dev reloads of this module, so the process still recognizes the tasks it owns
+const processId = globalForDb.processId ?? randomUUID();
+globalForDb.processId = processId;
+
+// Owners refresh their heartbeat well within this; anything older belongs to a process that's gone
+const RUN_OWNER_STALE_MS = 60 * 1000;
+
+export const currentRunOwner = (): TaskRunOwner => ({
+  processId,
+  pid: process.pid,
+  hostname: os.hostname(),
+  heartbeatAt: Date.now(),
+});
+
+// Whether the process that queued the task can no longer be running it
+const isOwnerGone = (task: AgentTask) => {
+  const owner = task.runOwner;
+  if (!owner) {
+    // Only a runner sets "running". A "pending" task may have just been saved by a client, so
+    // give the request that starts it time to arrive.
+    if (task.status === "running") return true;
+    return Date.now() - (task.lastActivityTime ?? task.createdAt) > RUN_OWNER_STALE_MS;
   }
+  if (owner.processId === processId) return false;
+  if (Date.now() - owner.heartbeatAt > RUN_OWNER_STALE_MS) return true;
+  if (owner.hostname !== os.hostname()) return false;
+  // A live process here with the owner's pid is a restarted server that took the pid over
+  return owner.pid === process.pid || !isProcessAlive(owner.pid);
 };
 
-// Initialize by loading existing data
-loadData();
+// Tasks still "running" or "pending" whose server process is gone (restarted or crashed) lost
+// their agent - mark them interrupted so they can be resumed from the UI. Tasks other processes
+// sharing the storage are still running are left alone.
+const markInterruptedTasks = () => {
+  let interruptedCount = 0;
+  for (const task of storage.loadTasks()) {
+    if (task.status !== "running" && task.status !== "pending") continue;
+    if (!isOwnerGone(task)) continue;
 
-// No schema initialization needed for JSON storage
+    task.status = "interrupted";
+    task.messages = task.messages.map((msg) =>
+      msg.isStreaming ? { ...msg, isStreaming: false } : msg
+    );
+    task.terminalOutput = task.terminalOutput.map((entry) =>
+      entry.isRunning ? { ...entry, isRunning: false } : entry
+    );
+    storage.updateTask(task);
+    interruptedCount++;
+  }
+
+  if (interruptedCount > 0) {
+    console.log(`⚠️ Marked ${interruptedCount} orphaned task(s) as interrupted`);
+  }
+};
+
+// Once per process at startup; the task queue repeats it while it runs
+if (!globalForDb.orphanCheckDone) {
+  globalForDb.orphanCheckDone = true;
+  markInterruptedTasks();
+}
+
+const formatKB = (bytes: number) => `${(bytes / 1024).toFixed(2)} KB`;
 
 // Database operations
 export const dbOperations = {
-  // Save a new task
-  saveTask: (task: AgentTask) => {
-    const existingIndex = dataStore.tasks.findIndex((t) => t.id === task.id);
-    if (existingIndex >= 0) {
-      dataStore.tasks[existingIndex] = task;
-    } else {
-      dataStore.tasks.unshift(task);
-    }
-    saveData();
+  // Mark running/pending tasks whose server process is gone as interrupted
+  markInterruptedTasks,
+
+  // Refresh the heartbeat on a task this process owns
+  touchRunOwner: (taskId: string) => {
+    const stored = storage.getTask(taskId);
+    if (stored?.runOwner?.processId !== processId) return;
+    storage.updateTask({ ...stored, runOwner: currentRunOwner() });
   },
 
+  // Save a new task
+  saveTask: (task: AgentTask) => storage.saveTask(task),
+
   // Update existing task
-  updateTask: (task: AgentTask) => {
-    const index = dataStore.tasks.findIndex((t) => t.id === task.id);
-    if (index >= 0) {
-      dataStore.tasks[index] = task;
-      saveData();
+  updateTask: (task: AgentTask) => storage.updateTask(task),
+
+  // Write only the given fields of task over the stored copy, so what other writers changed
+  // meanwhile survives. A task deleted in the meantime stays deleted.
+  updateTaskFields: (task: AgentTask, fields: readonly (keyof AgentTask)[]) => {
+    const stored = storage.getTask(task.id);
+    if (!stored) return;
+
+    const updated = { ...stored };
+    for (const field of fields) {
+      Object.assign(updated, { [field]: task[field] });
     }
+    storage.updateTask(updated);
   },
 
   // Load all tasks
-  loadTasks: (): AgentTask[] => {
-    return dataStore.tasks.sort((a, b) => b.createdAt - a.createdAt);
-  },
+  loadTasks: (): AgentTask[] => storage.loadTasks(),
 
   // Get a specific task
-  getTask: (taskId: string): AgentTask | null => {
-    return dataStore.tasks.find((t) => t.id === taskId) || null;
-  },
+  getTask: (taskId: string): AgentTask | null => storage.getTask(taskId),
 
   // Delete a task
   deleteTask: (taskId: string) => {
-    dataStore.tasks = dataStore.tasks.filter((t) => t.id !== taskId);
-    saveData();
+    storage.deleteTask(taskId);
+    eventLog.remove(taskId);
   },
 
   // Clear completed tasks
   clearCompleted: () => {
-    dataStore.tasks = dataStore.tasks.filter(
-      (t) => t.status !== "completed" && t.status !== "failed"
-    );
-    saveData();
+    const cleared = storage
+      .loadTasks()
+      .filter((t) => t.status === "completed" || t.status === "failed" || t.status === "cancelled");
+    storage.clearCompleted();
+    cleared.forEach((task) => eventLog.remove(task.id));
   },
 
-  // Clear all cache (tasks and repos)
+  // Clear all cache (tasks, repos and event logs)
   clearAllCache: () => {
-    dataStore.tasks = [];
-    dataStore.scannedRepos = [];
-    saveData();
+    storage.clearAll();
+    eventLog.clear();
   },
 
+  // Append an update to a task's event log
+  appendTaskEvent: (taskId: string, update: AgentUpdate): TaskEvent => eventLog.append(taskId, update),
+
+  // Get a task's events, optionally only those after a known seq
+  getTaskEvents: (taskId: string, afterSeq?: number): TaskEvent[] => eventLog.read(taskId, afterSeq),
+
   // Save scanned repos result
   saveScannedRepos: (scanKey: string, scannedPath: string, repos: unknown[]) => {
-    const existingIndex = dataStore.scannedRepos.findIndex(
-      (r) => r.scanKey === scanKey
-    );
-    
-    const entry = {
-      scanKey,
-      scannedPath,
-      repos,
-      scannedAt: Date.now(),
-    };
-    
-    if (existingIndex >= 0) {
-      dataStore.scannedRepos[existingIndex] = entry;
-    } else {
-      dataStore.scannedRepos.unshift(entry);
-    }
-    
-    saveData();
+    storage.saveScannedRepos({ scanKey, scannedPath, repos, scannedAt: Date.now() });
   },
 
   // Get scanned repos by key
   getScannedRepos: (
     scanKey: string
   ): { scannedPath: string; repos: unknown[] } | null => {
-    const entry = dataStore.scannedRepos.find((r) => r.scanKey === scanKey);
-    if (!entry) return null;
-    
-    return {
-      scannedPath: entry.scannedPath,
-      repos: entry.repos,
-    };
+    const entry = storage.getScannedRepos(scanKey);
+    return entry ? { scannedPath: entry.scannedPath, repos: entry.repos } : null;
   },
 
   // Get the most recent scan
   getLatestScan: (): { scannedPath: string; repos: unknown[] } | null => {
-    const sorted = [...dataStore.scannedRepos].sort(
-      (a, b) => b.scannedAt - a.scannedAt
-    );
-    
-    if (sorted.length === 0) return null;
-    
-    return {
-      scannedPath: sorted[0].scannedPath,
-      repos: sorted[0].repos,
-    };
+    const entry = storage.getLatestScan();
+    return entry ? { scannedPath: entry.scannedPath, repos: entry.repos } : null;
   },
 
   // Get storage path for debugging
-  getDbPath: () => TASKS_FILE,
+  getDbPath: () => Object.values(storage.getStats().files)[0],
 
   // Get database info for inspection
   getDbInfo: () => {
     try {
-      // Get file sizes
-      const tasksSize = fs.existsSync(TASKS_FILE)
-        ? fs.statSync(TASKS_FILE).size
-        : 0;
-      const reposSize = fs.existsSync(REPOS_FILE)
-        ? fs.statSync(REPOS_FILE).size
-        : 0;
-      const totalSize = tasksSize + reposSize;
-      const sizeInMB = (totalSize / (1024 * 1024)).toFixed(2);
-      
-      // Calculate message count
-      const messagesCount = dataStore.tasks.reduce(
-        (sum, task) => sum + task.messages.length,
-        0
-      );
-      
-      // Calculate tool calls count
-      const toolCallsCount = dataStore.tasks.reduce(
-        (sum, task) =>
-          sum +
-          task.messages.reduce(
-            (msgSum, msg) => msgSum + (msg.metadata?.toolCalls ? Object.keys(msg.metadata.toolCalls).length : 0),
-            0
-          ),
-        0
-      );
-      
+      const stats = storage.getStats();
+      const tasks = storage.loadTasks();
+      const fileSizes = { ...stats.fileSizes, events: eventLog.totalSize() };
+      const totalSize = Object.values(fileSizes).reduce((sum, size) => sum + size, 0);
+
       // Get task status breakdown
-      const tasksByStatus = dataStore.tasks.reduce((acc, task) => {
+      const tasksByStatus = tasks.reduce((acc, task) => {
         acc[task.status] = (acc[task.status] || 0) + 1;
         return acc;
       }, {} as Record<string, number>);
-      
+
       // Get recent activity (last 10 tasks)
-      const recentTasks = dataStore.tasks
-        .sort((a, b) => b.createdAt - a.createdAt)
-        .slice(0, 10)
-        .map((task) => ({
-          id: task.id,
-          repo_name: task.repoName,
-          action: task.action,
-          status: task.status,
-          created_at: task.createdAt,
-          token_count: task.tokenCount,
-        }));
-      
+      const recentTasks = tasks.slice(0, 10).map((task) => ({
+        id: task.id,
+        repo_name: task.repoName,
+        action: task.action,
+        status: task.status,
+        created_at: task.createdAt,
+        token_count: task.tokenCount,
+      }));
+
       // Get total token count
-      const totalTokens = dataStore.tasks.reduce(
-        (sum, task) => sum + task.tokenCount,
-        0
-      );
-      
+      const totalTokens = tasks.reduce((sum, task) => sum + task.tokenCount, 0);
+
       return {
         path: STORAGE_DIR,
-        files: {
-          tasks: TASKS_FILE,
-          repos: REPOS_FILE,
-        },
+        files: { ...stats.files, events: eventLog.dir },
         size: {
           bytes: totalSize,
-          mb: sizeInMB,
-          breakdown: {
-            tasks: `${(tasksSize / 1024).toFixed(2)} KB`,
-            repos: `${(reposSize / 1024).toFixed(2)} KB`,
-          },
-        },
-        tables: {
-          tasks: dataStore.tasks.length,
-          messages: messagesCount,
-          tool_calls: toolCallsCount,
-          scanned_repos: dataStore.scannedRepos.length,
+          mb: (totalSize / (1024 * 1024)).toFixed(2),
+          breakdown: Object.fromEntries(
+            Object.entries(fileSizes).map(([label, size]) => [label, formatKB(size)])
+          ),
         },
+        tables: stats.tables,
         tasksByStatus,
         recentTasks,
         totalTokens,
         schema: {
-          storage: "JSON files",
+          storage: stats.storage,
           files: [
-            {
-              name: "tasks.json",
-              description: "Agent tasks with messages and tool calls",
-            },
-            {
-              name: "scanned-repos.json",
-              description: "Cached repository scan results",
-            },
+            ...stats.schema,
+            { name: "events/<task>.jsonl", description: "Append-only log of raw agent updates per task" },
           ],
         },
       };
@@ -281,4 +266,3 @@ export const dbOperations = {
 };
 
 export default dbOperations;
-
@@ -0,0 +1,99 @@
+import type { DiffFile, DiffHunk, DiffLine } from "./types";
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+// "diff --git a/x b/x" - both sides are the same path since renames are disabled
+const pathFromGitHeader = (header: string) => {
+  const paths = header.replace(/^diff --git /, "");
+  const length = (paths.length - 5) / 2;
+  return paths.slice(2, 2 + length);
+};
+
+// Parse `git diff` output into files and hunks
+export const parseUnifiedDiff = (diff: string): DiffFile[] => {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      file = {
+        path: pathFromGitHeader(line),
+        status: "modified",
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      };
+      hunk = null;
+      files.push(file);
+      continue;
+    }
+    if (!file) continue;
+
+    if (!hunk) {
+      // Extended header lines before the first hunk
+      if (line.startsWith("new file mode")) file.status = "added";
+      else if (line.startsWith("deleted file mode")) file.status = "deleted";
+      else if (line.startsWith("Binary files")) file.binary = true;
+      else if (line.startsWith("+++ b/")) file.path = line.slice(6);
+    }
+
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      oldLine = Number(hunkMatch[1]);
+      newLine = Number(hunkMatch[2]);
+      hunk = { header: line, lines: [] };
+      file.hunks.push(hunk);
+      continue;
+    }
+    if (!hunk) continue;
+
+    let diffLine: DiffLine | null = null;
+    if (line.startsWith("+")) {
+      diffLine = { type: "add", content: line.slice(1), newLine: newLine++ };
+      file.additions++;
+    } else if (line.startsWith("-")) {
+      diffLine = { type: "del", content: line.slice(1), oldLine: oldLine++ };
+      file.deletions++;
+    } else if (line.startsWith(" ")) {
+      diffLine = { type: "context", content: line.slice(1), oldLine: oldLine++, newLine: newLine++ };
+    }
+    // "\ No newline at end of file" and the trailing empty line are skipped
+    if (diffLine) hunk.lines.push(diffLine);
+  }
+
+  return files;
+};
+
+// Untracked files never show up in `git diff`, so describe them as all-added
+export const buildAddedFileDiff = (path: string, content: Buffer): DiffFile => {
+  if (content.includes(0)) {
+    return { path, status: "added", binary: true, additions: 0, deletions: 0, hunks: [] };
+  }
+
+  const text = content.toString("utf-8");
+  const lines = text.length === 0 ? [] : text.replace(/\n$/, "").split("\n");
+  return {
+    path,
+    status: "added",
+    binary: false,
+    additions: lines.length,
+    deletions: 0,
+    hunks:
+      lines.length === 0
+        ? []
+        : [
+            {
+              header: `@@ -0,0 +1,${lines.length} @@`,
+              lines: lines.map((content, index) => ({
+                type: "add" as const,
+                content,
+                newLine: index + 1,
+              })),
+            },
+          ],
+  };
+};
@@ -0,0 +1,19 @@
+import type { Ecosystem, PackageManager, RepoLanguage } from "../types";
+
+// What a detector reads from a project's manifests
+export interface ProjectManifest {
+  name?: string; // Falls back to the directory name
+  language: RepoLanguage;
+  packageManager: PackageManager;
+  dependencies: Record<string, string>; // Name -> declared version ("" when unpinned)
+  devDependencies: Record<string, string>; // Test and tooling dependencies
+}
+
+// Recognises the projects of one non-JavaScript ecosystem (package.json projects are handled
+// by the scanner itself)
+export interface EcosystemDetector {
+  ecosystem: Ecosystem;
+  manifests: string[]; // A directory with any of these files is a project
+  // files are the names of everything in dir; returns null if the manifests say it isn't one
+  read: (dir: string, files: Set<string>) => Promise<ProjectManifest | null>;
+}
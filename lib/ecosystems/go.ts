@@ -0,0 +1,46 @@
+import fs from "fs/promises";
+import path from "path";
+import type { EcosystemDetector } from "./detector";
+
+// go.mod: the module path and its direct requirements, from "require" lines and blocks
+// (requirements marked "// indirect" only come in through other modules)
+export const goDetector: EcosystemDetector = {
+  ecosystem: "go",
+  manifests: ["go.mod"],
+
+  read: async (dir) => {
+    const goMod = await fs.readFile(path.join(dir, "go.mod"), "utf-8");
+    const dependencies: Record<string, string> = {};
+    let inRequireBlock = false;
+
+    for (const rawLine of goMod.split("\n")) {
+      const line = rawLine.trim();
+      if (inRequireBlock) {
+        if (line === ")") {
+          inRequireBlock = false;
+          continue;
+        }
+      } else if (line === "require (") {
+        inRequireBlock = true;
+        continue;
+      } else if (!line.startsWith("require ")) {
+        continue;
+      }
+
+      const requirement = (inRequireBlock ? line : line.slice("require ".length)).match(
+        /^(\S+)\s+(\S+)(.*)$/
+      );
+      if (requirement && !requirement[3].includes("// indirect")) {
+        dependencies[requirement[1]] = requirement[2];
+      }
+    }
+
+    return {
+      name: goMod.match(/^module\s+(\S+)/m)?.[1],
+      language: "go",
+      packageManager: "go",
+      dependencies,
+      devDependencies: {},
+    };
+  },
+};
@@ -0,0 +1,52 @@
+import path from "path";
+import { detectRepoTags, getMainFramework } from "../frameworks";
+import type { RepoInfo } from "../types";
+import type { EcosystemDetector } from "./detector";
+import { goDetector } from "./go";
+import { jvmDetector } from "./jvm";
+import { pythonDetector } from "./python";
+import { rustDetector } from "./rust";
+
+// Detectors for projects without a package.json, tried in this order
+export const ECOSYSTEM_DETECTORS: EcosystemDetector[] = [
+  pythonDetector,
+  goDetector,
+  rustDetector,
+  jvmDetector,
+];
+
+// Every file name that marks a directory as a non-JavaScript project
+export const ECOSYSTEM_MANIFESTS = new Set(ECOSYSTEM_DETECTORS.flatMap((detector) => detector.manifests));
+
+// The project in dir according to the first detector whose manifests it has, or null if none
+// recognise it (or its manifests can't be read)
+export const readProject = async (dir: string, files: Set<string>): Promise<RepoInfo | null> => {
+  for (const detector of ECOSYSTEM_DETECTORS) {
+    if (!detector.manifests.some((manifest) => files.has(manifest))) continue;
+
+    try {
+      const manifest = await detector.read(dir, files);
+      if (!manifest) continue;
+
+      const tags = detectRepoTags(manifest.dependencies, manifest.devDependencies);
+      const framework = getMainFramework(tags);
+      return {
+        path: dir,
+        name: manifest.name || path.basename(dir),
+        ecosystem: detector.ecosystem,
+        language: manifest.language,
+        hasTypescript: false,
+        framework: framework?.id ?? null,
+        frameworkVersion: framework?.version || null,
+        tags,
+        dependencies: manifest.dependencies,
+        devDependencies: manifest.devDependencies,
+        packageManager: manifest.packageManager,
+      };
+    } catch (error) {
+      console.warn(`Failed to read ${detector.ecosystem} project in ${dir}:`, error);
+      return null;
+    }
+  }
+  return null;
+};
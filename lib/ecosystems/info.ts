@@ -0,0 +1,84 @@
+import type { Ecosystem, PackageManager, RepoInfo, RepoLanguage, TaskAction } from "../types";
+
+// Labels and prompt context for the ecosystems the scanner knows; safe to import from client
+// components (the detectors themselves read the filesystem)
+
+export const LANGUAGE_LABELS: Record<RepoLanguage, string> = {
+  typescript: "TypeScript",
+  javascript: "JavaScript",
+  python: "Python",
+  go: "Go",
+  rust: "Rust",
+  java: "Java",
+  kotlin: "Kotlin",
+};
+
+export const LANGUAGE_BADGES: Record<RepoLanguage, { label: string; className: string }> = {
+  typescript: { label: "TS", className: "bg-blue-500 text-white" },
+  javascript: { label: "JS", className: "bg-yellow-500 text-black" },
+  python: { label: "Python", className: "bg-sky-700 text-yellow-300" },
+  go: { label: "Go", className: "bg-cyan-500 text-white" },
+  rust: { label: "Rust", className: "bg-orange-800 text-white" },
+  java: { label: "Java", className: "bg-red-700 text-white" },
+  kotlin: { label: "Kotlin", className: "bg-purple-600 text-white" },
+};
+
+// Scans from before other ecosystems were detected only have hasTypescript
+export const getRepoLanguage = (repo: RepoInfo): RepoLanguage =>
+  repo.language ?? (repo.hasTypescript ? "typescript" : "javascript");
+
+// How to find and apply dependency updates with each package manager
+const UPDATE_COMMANDS: Partial<Record<PackageManager, string>> = {
+  pip: "Use `pip list --outdated` to find updates and raise the pins in the requirements files / pyproject.toml.",
+  poetry: "Use `poetry show --outdated` to find updates, then `poetry add <package>@latest` or `poetry update`, keeping poetry.lock in sync.",
+  uv: "Use `uv tree --outdated` to find updates, raise the constraints in pyproject.toml and run `uv lock --upgrade`.",
+  pipenv: "Use `pipenv update --outdated` to find updates and `pipenv update` to apply them, keeping Pipfile.lock in sync.",
+  go: "Use `go list -u -m all` to find updates, `go get -u ./...` to apply them and `go mod tidy` afterwards.",
+  cargo: "Use `cargo update` for semver-compatible updates and raise the versions in Cargo.toml for major ones (`cargo outdated` lists them if installed).",
+  maven: "Use `mvn versions:display-dependency-updates` (and `versions:display-property-updates` for versions kept in <properties>) to find updates.",
+  gradle: "Find newer versions of the dependencies declared in the build scripts (and the version catalog, if any) and update them; run the build with the Gradle wrapper.",
+};
+
+const BUILD_CHECKS: Record<Exclude<Ecosystem, "node">, string> = {
+  python: "Make sure the tests (pytest or the project's own runner) still pass.",
+  go: "Make sure `go build ./...` and `go test ./...` still pass.",
+  rust: "Make sure `cargo build` and `cargo test` still pass.",
+  jvm: "Make sure the project still builds and its tests pass.",
+};
+
+// What the README's setup instructions should cover instead of npm scripts
+const README_HINTS: Record<Exclude<Ecosystem, "node">, string> = {
+  python: "Cover creating a virtual environment, installing dependencies and running the app or its management commands.",
+  go: "Cover the Go version from go.mod, building/installing the binaries under cmd/ (if any) and running the tests.",
+  rust: "Cover building with cargo, the binaries and features the crate provides and running the tests.",
+  jvm: "Cover the JDK version, building with the Maven/Gradle wrapper and running the application.",
+};
+
+// Tells the agent what kind of non-JavaScript project it's in, since the stock update-deps
+// and summarize prompts are written with package.json in mind
+export const withEcosystemContext = (prompt: string, action: TaskAction, repo: RepoInfo) => {
+  const { ecosystem } = repo;
+  if (!ecosystem || ecosystem === "node") return prompt;
+
+  const language = LANGUAGE_LABELS[getRepoLanguage(repo)];
+  const packageManager = repo.packageManager ? ` managed with ${repo.packageManager}` : "";
+  const context = `This is a ${language} project${packageManager}.`;
+
+  if (action === "update-deps") {
+    const declared = Object.entries({ ...repo.dependencies, ...repo.devDependencies });
+    return [
+      prompt,
+      "",
+      [context, repo.packageManager && UPDATE_COMMANDS[repo.packageManager], BUILD_CHECKS[ecosystem]]
+        .filter(Boolean)
+        .join(" "),
+      ...(declared.length > 0
+        ? ["", "Declared direct dependencies:", ...declared.map(([name, version]) => `- ${name}: ${version || "(unpinned)"}`)]
+        : []),
+    ].join("\n");
+  }
+  if (action === "summarize") {
+    return [prompt, "", `${context} ${README_HINTS[ecosystem]}`].join("\n");
+  }
+  return prompt;
+};
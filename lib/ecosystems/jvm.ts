@@ -0,0 +1,109 @@
+import fs from "fs/promises";
+import path from "path";
+import type { EcosystemDetector, ProjectManifest } from "./detector";
+import { xmlBlocks, xmlText, xmlWithout } from "./manifest-parsers";
+
+const GRADLE_FILES = ["build.gradle.kts", "build.gradle", "settings.gradle.kts", "settings.gradle"];
+
+// Gradle configurations that only build and run tests
+const isTestConfiguration = (configuration: string) => /^test|^androidTest/.test(configuration);
+
+// Maven: the parent (spring-boot-starter-parent gives Spring Boot projects away) and the
+// declared dependencies, without the ones only managed in <dependencyManagement> or used by
+// build plugins. ${property} versions are looked up in <properties>.
+const readPom = (pom: string): Pick<ProjectManifest, "name" | "dependencies" | "devDependencies"> => {
+  const xml = xmlWithout(pom, []);
+  const properties = xmlBlocks(xml, "properties")[0] ?? "";
+  const resolveVersion = (version = "") =>
+    version.replace(/\$\{([^}]+)\}/g, (placeholder, name: string) =>
+      xmlText(properties, name.replace(/\./g, "\\.")) ?? placeholder
+    );
+
+  const dependencies: Record<string, string> = {};
+  const devDependencies: Record<string, string> = {};
+  const parent = xmlBlocks(xml, "parent")[0];
+  if (parent) {
+    dependencies[`${xmlText(parent, "groupId")}:${xmlText(parent, "artifactId")}`] = resolveVersion(
+      xmlText(parent, "version")
+    );
+  }
+
+  const declared = xmlWithout(xml, ["parent", "dependencyManagement", "build", "profiles"]);
+  for (const dependency of xmlBlocks(declared, "dependency")) {
+    const id = `${xmlText(dependency, "groupId")}:${xmlText(dependency, "artifactId")}`;
+    const target = xmlText(dependency, "scope") === "test" ? devDependencies : dependencies;
+    target[id] = resolveVersion(xmlText(dependency, "version"));
+  }
+
+  return {
+    name: xmlText(xmlWithout(xml, ["parent", "dependencies", "dependencyManagement", "build"]), "artifactId"),
+    dependencies,
+    devDependencies,
+  };
+};
+
+// Gradle (Groovy or Kotlin DSL): dependency declarations like `implementation "g:a:1.0"`,
+// `testImplementation("g:a")` or `api(group: "g", name: "a")` aren't worth evaluating a
+// build script for, so they're matched line by line. The Spring Boot plugin stands in for
+// the Spring Boot dependencies it manages.
+const readGradleBuild = (script: string) => {
+  const dependencies: Record<string, string> = {};
+  const devDependencies: Record<string, string> = {};
+
+  const bootPlugin = script.match(
+    /id\s*\(?\s*["']org\.springframework\.boot["']\s*\)?(?:\s+version\s*\(?\s*["']([^"']+)["'])?/
+  );
+  if (bootPlugin) dependencies["org.springframework.boot:spring-boot"] = bootPlugin[1] ?? "";
+
+  const declaration =
+    /^\s*(\w+)\s*\(?\s*(?:["']([^"':]+):([^"':]+)(?::([^"']+))?["']|group\s*[:=]\s*["']([^"']+)["']\s*,\s*name\s*[:=]\s*["']([^"']+)["'](?:\s*,\s*version\s*[:=]\s*["']([^"']+)["'])?)/gm;
+  for (const match of script.matchAll(declaration)) {
+    const [, configuration, group = match[5], artifact = match[6], version = match[7] ?? ""] = match;
+    if (/^(id|classpath|plugins?)$/.test(configuration)) continue;
+    const target = isTestConfiguration(configuration) ? devDependencies : dependencies;
+    target[`${group}:${artifact}`] = version;
+  }
+
+  return { dependencies, devDependencies };
+};
+
+// Maven or Gradle builds; Kotlin when there are Kotlin sources or the Kotlin plugin is applied
+export const jvmDetector: EcosystemDetector = {
+  ecosystem: "jvm",
+  manifests: ["pom.xml", ...GRADLE_FILES],
+
+  read: async (dir, files) => {
+    let manifest: Pick<ProjectManifest, "name" | "dependencies" | "devDependencies">;
+    let build: string;
+
+    if (files.has("pom.xml")) {
+      build = await fs.readFile(path.join(dir, "pom.xml"), "utf-8");
+      manifest = readPom(build);
+    } else {
+      const scripts = await Promise.all(
+        GRADLE_FILES.filter((file) => files.has(file)).map((file) =>
+          fs.readFile(path.join(dir, file), "utf-8")
+        )
+      );
+      build = scripts.join("\n");
+      manifest = {
+        name: build.match(/rootProject\.name\s*=\s*["']([^"']+)["']/)?.[1],
+        ...readGradleBuild(build),
+      };
+    }
+
+    const hasKotlinSources = await fs
+      .stat(path.join(dir, "src", "main", "kotlin"))
+      .then((stat) => stat.isDirectory())
+      .catch(() => false);
+    const usesKotlinPlugin = /kotlin-maven-plugin|org\.jetbrains\.kotlin|kotlin\s*\(\s*["']jvm["']\s*\)/.test(
+      build
+    );
+
+    return {
+      ...manifest,
+      language: hasKotlinSources || usesKotlinPlugin ? "kotlin" : "java",
+      packageManager: files.has("pom.xml") ? "maven" : "gradle",
+    };
+  },
+};
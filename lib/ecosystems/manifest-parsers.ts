@@ -0,0 +1,109 @@
+// Just enough TOML and XML reading for project manifests (pyproject.toml, Pipfile, Cargo.toml,
+// pom.xml): top-level keys of each table as raw values, and the text of simple elements.
+
+const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, "$2");
+
+// Drop a trailing # comment, leaving any # inside strings alone
+const stripTomlComment = (line: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote && line[i - 1] !== "\\") quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#") {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+// Whether every [ and { in value is closed (outside strings), i.e. a multi-line array has ended
+const isBalanced = (value: string) => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "[" || char === "{") {
+      depth++;
+    } else if (char === "]" || char === "}") {
+      depth--;
+    }
+  }
+  return depth <= 0;
+};
+
+// Each table's keys and raw values, by dotted table name ("" for the top level). Values
+// spanning several lines (arrays, mostly) are joined onto one.
+export const parseTomlTables = (content: string): Map<string, Map<string, string>> => {
+  const tables = new Map<string, Map<string, string>>([["", new Map()]]);
+  let table = tables.get("")!;
+  let pending: { key: string; value: string } | null = null;
+
+  for (const rawLine of content.split("\n")) {
+    const line = stripTomlComment(rawLine).trim();
+
+    if (pending) {
+      pending.value += ` ${line}`;
+      if (isBalanced(pending.value)) {
+        table.set(pending.key, pending.value);
+        pending = null;
+      }
+      continue;
+    }
+    if (!line) continue;
+
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/);
+    if (header) {
+      const name = header[1].replace(/["']/g, "");
+      table = tables.get(name) ?? new Map();
+      tables.set(name, table);
+      continue;
+    }
+
+    const entry = line.match(/^("[^"]*"|'[^']*'|[\w.-]+)\s*=\s*(.*)$/);
+    if (!entry) continue;
+    const key = unquote(entry[1]);
+    if (isBalanced(entry[2])) {
+      table.set(key, entry[2]);
+    } else {
+      pending = { key, value: entry[2] };
+    }
+  }
+
+  return tables;
+};
+
+// A TOML string value, or undefined for anything else
+export const tomlString = (value: string | undefined) =>
+  value && /^(["']).*\1$/.test(value.trim()) ? unquote(value) : undefined;
+
+// The strings of a TOML array
+export const tomlStrings = (value: string | undefined) =>
+  Array.from(value?.matchAll(/"([^"]*)"|'([^']*)'/g) ?? [], (match) => match[1] ?? match[2]);
+
+// The version of a dependency entry: `"^1.2"`, or `{ version = "1.2", features = [...] }`
+// (empty for path and git dependencies without one)
+export const tomlDependencyVersion = (value: string) =>
+  value.trim().startsWith("{")
+    ? value.match(/\bversion\s*=\s*["']([^"']*)["']/)?.[1] ?? ""
+    : tomlString(value) ?? "";
+
+// Text of the first <tag> element in xml, if any
+export const xmlText = (xml: string, tag: string) =>
+  xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`))?.[1];
+
+// Every <tag>...</tag> block in xml
+export const xmlBlocks = (xml: string, tag: string) =>
+  Array.from(xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "g")), (match) => match[1]);
+
+// xml without its comments and the given elements (with everything inside them)
+export const xmlWithout = (xml: string, tags: string[]) =>
+  tags.reduce(
+    (result, tag) => result.replace(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, "g"), ""),
+    xml.replace(/<!--[\s\S]*?-->/g, "")
+  );
@@ -0,0 +1,101 @@
+import fs from "fs/promises";
+import path from "path";
+import type { EcosystemDetector } from "./detector";
+import { parseTomlTables, tomlDependencyVersion, tomlString, tomlStrings } from "./manifest-parsers";
+
+const DEV_REQUIREMENTS = ["requirements-dev.txt", "dev-requirements.txt", "requirements-test.txt"];
+
+// A PEP 508 requirement - "Django[argon2]>=4.2,<5 ; python_version > '3.8'" - as a normalized
+// name and its version specifier
+const parseRequirement = (requirement: string): [string, string] | null => {
+  const match = requirement
+    .split(";")[0]
+    .trim()
+    .match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*(.*)$/);
+  if (!match) return null;
+  const version = match[2].startsWith("@") ? "" : match[2].trim();
+  return [match[1].toLowerCase().replace(/[_.]+/g, "-"), version];
+};
+
+const addRequirements = (target: Record<string, string>, requirements: string[]) => {
+  for (const requirement of requirements) {
+    const parsed = parseRequirement(requirement);
+    if (parsed) target[parsed[0]] = parsed[1];
+  }
+};
+
+// requirements.txt lines, without comments, options (-r, -e, --index-url) and blanks
+const readRequirementsFile = async (file: string) =>
+  (await fs.readFile(file, "utf-8"))
+    .split("\n")
+    .map((line) => line.replace(/\s+#.*$/, "").trim())
+    .filter((line) => line && !line.startsWith("#") && !line.startsWith("-"));
+
+// Poetry and Pipfile tables map names to a version string or an inline table
+const addDependencyTable = (target: Record<string, string>, table: Map<string, string> | undefined) => {
+  for (const [name, value] of table ?? []) {
+    if (name.toLowerCase() === "python") continue;
+    const version = tomlDependencyVersion(value);
+    target[name.toLowerCase().replace(/[_.]+/g, "-")] = version === "*" ? "" : version;
+  }
+};
+
+// pyproject.toml (PEP 621 or Poetry), Pipfile and requirements files
+export const pythonDetector: EcosystemDetector = {
+  ecosystem: "python",
+  manifests: ["pyproject.toml", "Pipfile", "requirements.txt", ...DEV_REQUIREMENTS],
+
+  read: async (dir, files) => {
+    const dependencies: Record<string, string> = {};
+    const devDependencies: Record<string, string> = {};
+    let name: string | undefined;
+    let usesPoetry = false;
+
+    if (files.has("pyproject.toml")) {
+      const tables = parseTomlTables(await fs.readFile(path.join(dir, "pyproject.toml"), "utf-8"));
+      const project = tables.get("project");
+      const poetry = tables.get("tool.poetry");
+      usesPoetry = !!poetry;
+      name = tomlString(project?.get("name")) ?? tomlString(poetry?.get("name"));
+
+      addRequirements(dependencies, tomlStrings(project?.get("dependencies")));
+      addDependencyTable(dependencies, tables.get("tool.poetry.dependencies"));
+      addDependencyTable(devDependencies, tables.get("tool.poetry.dev-dependencies"));
+      for (const [table, values] of tables) {
+        if (/^tool\.poetry\.group\.[^.]+\.dependencies$/.test(table)) {
+          addDependencyTable(devDependencies, values);
+        } else if (table === "dependency-groups" || table === "project.optional-dependencies") {
+          // PEP 735 groups and extras are mostly dev/test tooling
+          for (const value of values.values()) addRequirements(devDependencies, tomlStrings(value));
+        }
+      }
+    }
+
+    if (files.has("Pipfile")) {
+      const tables = parseTomlTables(await fs.readFile(path.join(dir, "Pipfile"), "utf-8"));
+      addDependencyTable(dependencies, tables.get("packages"));
+      addDependencyTable(devDependencies, tables.get("dev-packages"));
+    }
+
+    if (files.has("requirements.txt")) {
+      addRequirements(dependencies, await readRequirementsFile(path.join(dir, "requirements.txt")));
+    }
+    for (const file of DEV_REQUIREMENTS.filter((f) => files.has(f))) {
+      addRequirements(devDependencies, await readRequirementsFile(path.join(dir, file)));
+    }
+
+    return {
+      name,
+      language: "python",
+      packageManager: files.has("uv.lock")
+        ? "uv"
+        : usesPoetry || files.has("poetry.lock")
+          ? "poetry"
+          : files.has("Pipfile")
+            ? "pipenv"
+            : "pip",
+      dependencies,
+      devDependencies,
+    };
+  },
+};
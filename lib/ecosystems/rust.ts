@@ -0,0 +1,33 @@
+import fs from "fs/promises";
+import path from "path";
+import type { EcosystemDetector } from "./detector";
+import { parseTomlTables, tomlDependencyVersion, tomlString } from "./manifest-parsers";
+
+const readDependencyTable = (table: Map<string, string> | undefined) =>
+  Object.fromEntries(
+    Array.from(table ?? [], ([name, value]) => [name, tomlDependencyVersion(value)])
+  );
+
+// Cargo.toml of a crate, or of a workspace (whose shared dependencies stand in for its own)
+export const rustDetector: EcosystemDetector = {
+  ecosystem: "rust",
+  manifests: ["Cargo.toml"],
+
+  read: async (dir) => {
+    const tables = parseTomlTables(await fs.readFile(path.join(dir, "Cargo.toml"), "utf-8"));
+
+    return {
+      name: tomlString(tables.get("package")?.get("name")),
+      language: "rust",
+      packageManager: "cargo",
+      dependencies: {
+        ...readDependencyTable(tables.get("workspace.dependencies")),
+        ...readDependencyTable(tables.get("dependencies")),
+      },
+      devDependencies: {
+        ...readDependencyTable(tables.get("build-dependencies")),
+        ...readDependencyTable(tables.get("dev-dependencies")),
+      },
+    };
+  },
+};
@@ -0,0 +1,52 @@
+import os from "os";
+import path from "path";
+import type { FilesystemScope, FilesystemScopeMode } from "./types";
+
+const SCOPE_MODES: FilesystemScopeMode[] = ["repo-only", "repo-plus-paths", "home"];
+
+export const expandHome = (value: string) =>
+  value === "~" || value.startsWith("~/") ? path.join(os.homedir(), value.slice(1)) : value;
+
+// Only ".." as a whole path segment leaves root - a sibling like "..foo" inside it doesn't
+export const isWithin = (root: string, target: string) => {
+  const relative = path.relative(path.resolve(root), target);
+  const escapes = relative === ".." || relative.startsWith(`..${path.sep}`);
+  return !escapes && !path.isAbsolute(relative);
+};
+
+// Where agents may read and write, e.g. AGENT_FS_SCOPE="repo-plus-paths" with
+// AGENT_FS_EXTRA_PATHS="~/.npmrc,~/shared-configs". Unset keeps the original whole-home access;
+// a value that isn't recognised falls back to the strictest scope rather than the widest.
+const parseScope = (mode: string | undefined, extraPaths: string | undefined): FilesystemScope => {
+  const parsedMode = (mode || "home").trim() as FilesystemScopeMode;
+  if (!SCOPE_MODES.includes(parsedMode)) {
+    console.error(`Unknown AGENT_FS_SCOPE "${mode}", falling back to "repo-only"`);
+  }
+
+  return {
+    mode: SCOPE_MODES.includes(parsedMode) ? parsedMode : "repo-only",
+    extraPaths: (extraPaths || "")
+      .split(",")
+      .map((p) => p.trim())
+      .filter(Boolean)
+      .map((p) => path.resolve(expandHome(p))),
+  };
+};
+
+export const FILESYSTEM_SCOPE = parseScope(process.env.AGENT_FS_SCOPE, process.env.AGENT_FS_EXTRA_PATHS);
+
+// Directory the agent process starts in - relative paths in tool calls resolve against it
+export const getAgentRoot = (workingDirectory: string, scope = FILESYSTEM_SCOPE) =>
+  scope.mode === "home" ? os.homedir() : workingDirectory;
+
+// Roots tool calls may touch: the task's directory, plus the extra paths or the whole home directory
+export const getAllowedRoots = (workingDirectory: string, scope = FILESYSTEM_SCOPE): string[] => {
+  switch (scope.mode) {
+    case "home":
+      return [os.homedir(), workingDirectory];
+    case "repo-plus-paths":
+      return [workingDirectory, ...scope.extraPaths];
+    case "repo-only":
+      return [workingDirectory];
+  }
+};
@@ -0,0 +1,101 @@
+import type { Framework, RepoInfo, RepoTag, RepoTagKind } from "./types";
+
+// What a project is built with, recognised from its dependencies. A project gets a tag for
+// every rule that matches; its main framework is the first framework rule that matches, so
+// meta-frameworks come before the libraries they're built on (Next.js before React, Nuxt
+// before Vue, NestJS before Express). Dependency names are whatever the ecosystem calls them:
+// npm packages, Python distributions, Go module paths, crates or Maven "group:artifact" ids.
+
+interface DetectionRule {
+  id: string;
+  kind: RepoTagKind;
+  label: string;
+  packages: string[]; // Any of these in dependencies or devDependencies; "group:*" matches a prefix
+}
+
+const FRAMEWORK_RULES: (DetectionRule & { id: Exclude<Framework, "other">; kind: "framework" })[] = [
+  { id: "nextjs", kind: "framework", label: "Next.js", packages: ["next"] },
+  { id: "nuxt", kind: "framework", label: "Nuxt", packages: ["nuxt", "nuxt3"] },
+  { id: "remix", kind: "framework", label: "Remix", packages: ["@remix-run/react", "@remix-run/node", "@remix-run/dev"] },
+  { id: "astro", kind: "framework", label: "Astro", packages: ["astro"] },
+  { id: "sveltekit", kind: "framework", label: "SvelteKit", packages: ["@sveltejs/kit"] },
+  { id: "solidstart", kind: "framework", label: "SolidStart", packages: ["@solidjs/start", "solid-start"] },
+  { id: "expo", kind: "framework", label: "Expo", packages: ["expo"] },
+  { id: "electron", kind: "framework", label: "Electron", packages: ["electron"] },
+  { id: "nestjs", kind: "framework", label: "NestJS", packages: ["@nestjs/core"] },
+  { id: "angular", kind: "framework", label: "Angular", packages: ["@angular/core"] },
+  { id: "react-native", kind: "framework", label: "React Native", packages: ["react-native"] },
+  { id: "vue", kind: "framework", label: "Vue", packages: ["vue"] },
+  { id: "svelte", kind: "framework", label: "Svelte", packages: ["svelte"] },
+  { id: "solid", kind: "framework", label: "Solid", packages: ["solid-js"] },
+  { id: "react", kind: "framework", label: "React", packages: ["react"] },
+  { id: "fastify", kind: "framework", label: "Fastify", packages: ["fastify"] },
+  { id: "express", kind: "framework", label: "Express", packages: ["express"] },
+  { id: "django", kind: "framework", label: "Django", packages: ["django"] },
+  { id: "fastapi", kind: "framework", label: "FastAPI", packages: ["fastapi"] },
+  { id: "gin", kind: "framework", label: "Gin", packages: ["github.com/gin-gonic/gin"] },
+  { id: "axum", kind: "framework", label: "Axum", packages: ["axum"] },
+  { id: "spring", kind: "framework", label: "Spring", packages: ["org.springframework.boot:*", "org.springframework:*"] },
+];
+
+const TOOL_RULES: DetectionRule[] = [
+  { id: "node", kind: "runtime", label: "Node.js", packages: ["@types/node"] },
+  { id: "bun", kind: "runtime", label: "Bun", packages: ["@types/bun", "bun-types"] },
+  { id: "workers", kind: "runtime", label: "Cloudflare Workers", packages: ["wrangler", "@cloudflare/workers-types"] },
+
+  { id: "vite", kind: "bundler", label: "Vite", packages: ["vite"] },
+  { id: "webpack", kind: "bundler", label: "webpack", packages: ["webpack"] },
+  { id: "rspack", kind: "bundler", label: "Rspack", packages: ["@rspack/core", "@rsbuild/core"] },
+  { id: "rollup", kind: "bundler", label: "Rollup", packages: ["rollup"] },
+  { id: "esbuild", kind: "bundler", label: "esbuild", packages: ["esbuild"] },
+  { id: "parcel", kind: "bundler", label: "Parcel", packages: ["parcel"] },
+  { id: "tsup", kind: "bundler", label: "tsup", packages: ["tsup"] },
+
+  { id: "vitest", kind: "test-runner", label: "Vitest", packages: ["vitest"] },
+  { id: "jest", kind: "test-runner", label: "Jest", packages: ["jest"] },
+  { id: "mocha", kind: "test-runner", label: "Mocha", packages: ["mocha"] },
+  { id: "ava", kind: "test-runner", label: "AVA", packages: ["ava"] },
+  { id: "playwright", kind: "test-runner", label: "Playwright", packages: ["@playwright/test"] },
+  { id: "cypress", kind: "test-runner", label: "Cypress", packages: ["cypress"] },
+  { id: "pytest", kind: "test-runner", label: "pytest", packages: ["pytest"] },
+];
+
+const DETECTION_RULES: DetectionRule[] = [...FRAMEWORK_RULES, ...TOOL_RULES];
+
+export const TAG_KIND_LABELS: Record<RepoTagKind, string> = {
+  framework: "Frameworks",
+  runtime: "Runtimes",
+  bundler: "Bundlers",
+  "test-runner": "Test runners",
+};
+
+export const getTagLabel = (id: string) =>
+  DETECTION_RULES.find((rule) => rule.id === id)?.label ?? id.charAt(0).toUpperCase() + id.slice(1);
+
+// Every rule the dependencies match, in table order (so the main framework comes first)
+export const detectRepoTags = (
+  deps: Record<string, string>,
+  devDeps: Record<string, string>
+): RepoTag[] =>
+  DETECTION_RULES.flatMap(({ id, kind, label, packages }) => {
+    // Versions can be empty (unpinned requirements, Maven-managed versions), so go by the names
+    const names = [...Object.keys(deps), ...Object.keys(devDeps)];
+    const dependency = packages
+      .map((pattern) =>
+        pattern.endsWith("*")
+          ? names.find((name) => name.startsWith(pattern.slice(0, -1)))
+          : names.find((name) => name === pattern)
+      )
+      .find((name) => name !== undefined);
+    return dependency
+      ? [{ id, kind, label, package: dependency, version: deps[dependency] ?? devDeps[dependency] }]
+      : [];
+  });
+
+// The project's main framework among its tags
+export const getMainFramework = (tags: RepoTag[]) =>
+  tags.find((tag): tag is RepoTag & { id: Framework } => tag.kind === "framework") ?? null;
+
+// Tag ids to filter a project by; scans from before tags only know the main framework
+export const getRepoTagIds = (repo: RepoInfo) =>
+  repo.tags?.map((tag) => tag.id) ?? (repo.framework ? [repo.framework] : []);
@@ -0,0 +1,271 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { randomUUID } from "crypto";
+import { copyFile, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { STORAGE_DIR } from "./db";
+import { buildAddedFileDiff, parseUnifiedDiff } from "./diff";
+import type { AgentTask, DiffFile, RepoGitInfo, TaskWorktree } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+// Removing a worktree would lose work the user hasn't confirmed they want gone
+export class UnsavedWorktreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsavedWorktreeError";
+  }
+}
+
+// Worktrees live next to the task data; a worktree task's filesystem scope is its own checkout
+const WORKTREES_DIR = path.join(STORAGE_DIR, "worktrees");
+
+// Run a git command and return its stdout
+export const runGit = async (
+  cwd: string,
+  args: string[],
+  env?: Record<string, string>
+): Promise<string> => {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    maxBuffer: 20 * 1024 * 1024,
+    env: env && { ...process.env, ...env },
+  });
+  return stdout;
+};
+
+export const getRepoRoot = async (dir: string) =>
+  (await runGit(dir, ["rev-parse", "--show-toplevel"])).trim();
+
+// Whether dir is inside a git checkout at all
+export const isGitRepository = async (dir: string) =>
+  runGit(dir, ["rev-parse", "--is-inside-work-tree"]).then(
+    (stdout) => stdout.trim() === "true",
+    () => false
+  );
+
+export const getHeadCommit = async (dir: string) =>
+  (await runGit(dir, ["rev-parse", "HEAD"])).trim();
+
+export const hasUncommittedChanges = async (dir: string) =>
+  (await runGit(dir, ["status", "--porcelain"])).trim().length > 0;
+
+// Create a worktree on a new branch for the task, based on the repo's current HEAD
+export const createTaskWorktree = async (task: AgentTask): Promise<TaskWorktree> => {
+  const repoRoot = await getRepoRoot(task.repoPath);
+  const baseCommit = await getHeadCommit(repoRoot);
+  const branch = `agent/${task.action}/${task.id}`;
+  const worktreePath = path.join(WORKTREES_DIR, `${path.basename(repoRoot)}-${task.id}`);
+
+  console.log(`🌿 Creating worktree for ${task.repoName} on ${branch}`);
+  await runGit(repoRoot, ["worktree", "add", "-b", branch, worktreePath, baseCommit]);
+
+  // The task may target a package inside the repo - map it into the worktree
+  const relativePath = path.relative(repoRoot, task.repoPath);
+
+  return {
+    path: worktreePath,
+    branch,
+    repoRoot,
+    workingDirectory: path.join(worktreePath, relativePath),
+    baseCommit,
+    createdAt: Date.now(),
+  };
+};
+
+// Commit the given paths under dir (default: everything there), returning the new HEAD or null if clean
+export const commitChanges = async (dir: string, message: string, paths: string[] = ["."]) => {
+  if (paths.length === 0) return null;
+  if (!(await runGit(dir, ["status", "--porcelain", "--", ...paths])).trim()) return null;
+
+  await runGit(dir, ["add", "-A", "--", ...paths]);
+  await runGit(dir, ["commit", "-m", message, "--", ...paths]);
+  return getHeadCommit(dir);
+};
+
+// Commit whatever the agent left uncommitted in the worktree
+export const commitWorktreeChanges = (worktree: TaskWorktree, message: string) =>
+  commitChanges(worktree.path, message);
+
+// Merge the task branch into whatever the main checkout has checked out
+export const mergeTaskWorktree = async (worktree: TaskWorktree, commitMessage: string) => {
+  await commitWorktreeChanges(worktree, commitMessage);
+
+  // Never merge on top of the user's own uncommitted work
+  if (await hasUncommittedChanges(worktree.repoRoot)) {
+    throw new Error(
+      `${worktree.repoRoot} has uncommitted changes. Commit or stash them before merging ${worktree.branch}.`
+    );
+  }
+
+  try {
+    await runGit(worktree.repoRoot, [
+      "merge",
+      "--no-ff",
+      "-m",
+      `Merge ${worktree.branch}`,
+      worktree.branch,
+    ]);
+  } catch (error) {
+    // Leave the checkout as it was if the merge conflicts
+    await runGit(worktree.repoRoot, ["merge", "--abort"]).catch(() => undefined);
+    throw new Error(
+      `Merging ${worktree.branch} failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return getHeadCommit(worktree.repoRoot);
+};
+
+// What removing the worktree would lose: uncommitted changes in it, or commits on its branch
+// that were never merged. Null when it's safe to remove.
+export const getUnsavedWorktreeWork = async (worktree: TaskWorktree): Promise<string | null> => {
+  if (await hasUncommittedChanges(worktree.path)) {
+    return `${worktree.path} has uncommitted changes`;
+  }
+  if (!worktree.mergedAt) {
+    const range = `${worktree.baseCommit}..${worktree.branch}`;
+    const ahead = parseInt((await runGit(worktree.repoRoot, ["rev-list", "--count", range])).trim(), 10);
+    if (ahead > 0) {
+      return `${worktree.branch} has unmerged commits (${ahead})`;
+    }
+  }
+  return null;
+};
+
+// Remove the worktree checkout; the branch is only deleted once it has been merged.
+// Refuses to throw away unsaved work (see getUnsavedWorktreeWork) unless force is set.
+export const removeTaskWorktree = async (worktree: TaskWorktree, { force = false } = {}) => {
+  const unsaved = force ? null : await getUnsavedWorktreeWork(worktree);
+  if (unsaved) {
+    throw new UnsavedWorktreeError(unsaved);
+  }
+
+  await runGit(worktree.repoRoot, ["worktree", "remove", "--force", worktree.path]);
+  if (worktree.mergedAt) {
+    await runGit(worktree.repoRoot, ["branch", "-D", worktree.branch]);
+  }
+};
+
+// Where a task's changes live: its worktree while it exists, otherwise the repo itself
+export const getTaskDirectory = (task: AgentTask) =>
+  task.worktree && !task.worktree.removedAt ? task.worktree.workingDirectory : task.repoPath;
+
+// Paths under dir (relative to it) that differ from HEAD or are untracked
+export const getUncommittedPaths = async (dir: string): Promise<string[]> => {
+  const changed = await runGit(dir, ["diff", "--name-only", "-z", "--no-renames", "--relative", "HEAD"]);
+  const untracked = await runGit(dir, ["ls-files", "-z", "--others", "--exclude-standard"]);
+  return [...new Set(`${changed}${untracked}`.split("\0").filter(Boolean))].sort();
+};
+
+// Tree hash of dir's contents as they are on disk, untracked files included. Stages into a
+// copy of the index, so the user's own staging is left alone.
+export const getWorkingTreeHash = async (dir: string) => {
+  const index = path.resolve(dir, (await runGit(dir, ["rev-parse", "--git-path", "index"])).trim());
+  const tempIndex = path.join(os.tmpdir(), `agent-index-${randomUUID()}`);
+  // A repo without commits may not have an index yet
+  await copyFile(index, tempIndex).catch(() => undefined);
+  try {
+    const env = { GIT_INDEX_FILE: tempIndex };
+    await runGit(dir, ["add", "-A", "--", "."], env);
+    return (await runGit(dir, ["write-tree"], env)).trim();
+  } finally {
+    await rm(tempIndex, { force: true });
+  }
+};
+
+// Everything that changed under dir since baseCommit - committed, uncommitted and untracked.
+// Paths in exclude (see AgentTask.preexistingChanges) are left out.
+export const getDiffSince = async (
+  dir: string,
+  baseCommit: string,
+  exclude: string[] = []
+): Promise<DiffFile[]> => {
+  const excluded = new Set(exclude);
+  const diff = await runGit(dir, [
+    "-c",
+    "core.quotePath=false",
+    "diff",
+    "--no-renames",
+    "--relative",
+    baseCommit,
+  ]);
+  const files = parseUnifiedDiff(diff).filter((file) => !excluded.has(file.path));
+
+  const untracked = (
+    await runGit(dir, ["-c", "core.quotePath=false", "ls-files", "--others", "--exclude-standard"])
+  )
+    .split("\n")
+    .filter((file) => file && !excluded.has(file));
+  for (const file of untracked) {
+    // A nested repository is listed as its directory ("nested/"), and a file may be gone by now
+    if (file.endsWith("/")) continue;
+    try {
+      files.push(buildAddedFileDiff(file, await readFile(path.join(dir, file))));
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== "EISDIR" && code !== "ENOENT") throw error;
+    }
+  }
+
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+// Put a single file back the way it was at baseCommit
+export const revertFileToCommit = async (dir: string, baseCommit: string, file: string) => {
+  const target = path.resolve(dir, file);
+  if (!target.startsWith(path.resolve(dir) + path.sep)) {
+    throw new Error(`${file} is outside of ${dir}`);
+  }
+
+  const existedAtBase = await runGit(dir, ["cat-file", "-e", `${baseCommit}:./${file}`])
+    .then(() => true)
+    .catch(() => false);
+
+  if (existedAtBase) {
+    await runGit(dir, ["checkout", baseCommit, "--", file]);
+  } else {
+    // The agent created it - drop it from the index (if staged) and from disk
+    await runGit(dir, ["rm", "-q", "-f", "--cached", "--ignore-unmatch", "--", file]);
+    await rm(target, { force: true });
+  }
+};
+
+// Branch, working tree and remote state of the checkout at repoRoot (see getRepoRoot)
+export const getRepoGitInfo = async (repoRoot: string): Promise<RepoGitInfo> => {
+  // Porcelain v2 puts the branch, its upstream and the ahead/behind counts in "# " headers,
+  // followed by one line per changed or untracked file
+  const status = await runGit(repoRoot, ["status", "--porcelain=v2", "--branch"]);
+  const info: RepoGitInfo = { repoRoot, branch: null, isDirty: false };
+  for (const line of status.split("\n").filter(Boolean)) {
+    if (!line.startsWith("# ")) {
+      info.isDirty = true;
+    } else if (line.startsWith("# branch.head ")) {
+      const head = line.slice("# branch.head ".length);
+      info.branch = head === "(detached)" ? null : head;
+    } else if (line.startsWith("# branch.upstream ")) {
+      info.upstream = line.slice("# branch.upstream ".length);
+    } else if (line.startsWith("# branch.ab ")) {
+      const [ahead, behind] = line.slice("# branch.ab ".length).split(" ");
+      info.ahead = Math.abs(parseInt(ahead, 10));
+      info.behind = Math.abs(parseInt(behind, 10));
+    }
+  }
+
+  // Fails in a repo without commits
+  const lastCommit = await runGit(repoRoot, ["log", "-1", "--format=%ct%x00%an"]).catch(() => "");
+  if (lastCommit.trim()) {
+    const [timestamp, author] = lastCommit.trim().split("\0");
+    info.lastCommitDate = parseInt(timestamp, 10) * 1000;
+    info.lastCommitAuthor = author;
+  }
+
+  const remotes = (await runGit(repoRoot, ["remote"])).split("\n").filter(Boolean);
+  const remote = remotes.includes("origin") ? "origin" : remotes[0];
+  if (remote) {
+    info.remoteUrl = (await runGit(repoRoot, ["remote", "get-url", remote])).trim();
+  }
+
+  return info;
+};
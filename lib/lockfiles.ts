@@ -0,0 +1,166 @@
+import fs from "fs/promises";
+import path from "path";
+import type { PackageManager } from "./types";
+
+// Installed versions of a project's dependencies, read from whichever lockfile its package
+// manager wrote. Only what the scanner needs is parsed: the version each direct dependency
+// resolved to. Packages inside a workspace are looked up under their own importer/path.
+
+export interface Lockfile {
+  file: string; // Absolute path
+  packageManager: PackageManager;
+  // Installed version of a direct dependency of the project at importer (its path relative
+  // to the lockfile's directory, "." for the root), or undefined if the lockfile doesn't say
+  resolve: (name: string, range: string, importer: string) => string | undefined;
+}
+
+type LockfileParser = (content: string) => Lockfile["resolve"];
+
+const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, "$2");
+
+// npm: package-lock.json v2/v3 list every installed package by its node_modules path,
+// v1 nests them under "dependencies"
+const parsePackageLock: LockfileParser = (content) => {
+  const lock = JSON.parse(content) as {
+    packages?: Record<string, { version?: string }>;
+    dependencies?: Record<string, { version?: string }>;
+  };
+  return (name, _range, importer) => {
+    if (lock.packages) {
+      const nested = importer === "." ? null : `${importer}/node_modules/${name}`;
+      return (nested && lock.packages[nested]?.version) || lock.packages[`node_modules/${name}`]?.version;
+    }
+    return lock.dependencies?.[name]?.version;
+  };
+};
+
+type YamlMapping = { [key: string]: YamlMapping | string };
+
+// The block mappings of a YAML document (sequences and multi-line scalars are skipped), which
+// covers the parts of pnpm-lock.yaml read here
+const parseYamlMappings = (lines: string[]): YamlMapping => {
+  const root: YamlMapping = {};
+  const stack: { indent: number; mapping: YamlMapping }[] = [{ indent: -1, mapping: root }];
+
+  for (const line of lines) {
+    const content = line.trim();
+    if (!content || content.startsWith("#") || content.startsWith("-")) continue;
+    const entry = content.match(/^('[^']*'|"[^"]*"|[^:]+?):(?:\s+(.*))?$/);
+    if (!entry) continue;
+
+    const indent = line.length - line.trimStart().length;
+    while (stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1].mapping;
+    const key = unquote(entry[1]);
+
+    if (entry[2] === undefined || entry[2] === "") {
+      const mapping: YamlMapping = {};
+      parent[key] = mapping;
+      stack.push({ indent, mapping });
+    } else {
+      parent[key] = unquote(entry[2]);
+    }
+  }
+
+  return root;
+};
+
+// pnpm: direct dependencies live under importers.<path> (or at the top level in single-project
+// lockfiles before v9), as "version" entries (v6+) or plain versions (v5). Versions carry
+// peer suffixes - "14.1.3(react@18.2.0)" in v6+, "14.1.3_react@18.2.0" in v5 - and
+// workspace packages resolve to "link:../pkg".
+const parsePnpmLock: LockfileParser = (content) => {
+  // Everything after the top-level "packages:" key is irrelevant here (and most of the file)
+  const lines = content.split("\n");
+  const end = lines.findIndex((line) => /^(packages|snapshots):/.test(line));
+  const lock = parseYamlMappings(end === -1 ? lines : lines.slice(0, end));
+
+  return (name, _range, importer) => {
+    const importers = lock.importers as YamlMapping | undefined;
+    const project = (importers?.[importer] ?? (importer === "." ? lock : undefined)) as
+      | YamlMapping
+      | undefined;
+    if (!project) return undefined;
+
+    for (const group of ["dependencies", "devDependencies", "optionalDependencies"]) {
+      const entry = (project[group] as YamlMapping | undefined)?.[name];
+      const version = typeof entry === "string" ? entry : entry?.version;
+      if (typeof version === "string" && !version.startsWith("link:")) {
+        return version.replace(/[(_].*$/, "");
+      }
+    }
+    return undefined;
+  };
+};
+
+// yarn: one block per resolved version, headed by every "name@range" it satisfies -
+// `"next@^14.1.0", next@^14:` with `version "14.1.3"` (v1), or `"next@npm:^14.1.0":` with
+// `version: 14.1.3` (berry)
+const parseYarnLock: LockfileParser = (content) => {
+  const versions = new Map<string, string>();
+  let specifiers: string[] = [];
+
+  for (const line of content.split("\n")) {
+    if (!line.trim() || line.startsWith("#")) continue;
+    if (!line.startsWith(" ")) {
+      // Berry quotes the whole list, v1 each specifier that needs it
+      specifiers = line
+        .replace(/:$/, "")
+        .split(",")
+        .map((specifier) => specifier.trim().replace(/^"|"$/g, ""));
+      continue;
+    }
+    const version = line.match(/^\s+version:?\s+(.+)$/);
+    if (version) {
+      for (const specifier of specifiers) versions.set(specifier, unquote(version[1]));
+    }
+  }
+
+  return (name, range) => versions.get(`${name}@${range}`) ?? versions.get(`${name}@npm:${range}`);
+};
+
+// bun: bun.lock is JSON with trailing commas; packages maps each name to
+// ["name@version", registry, metadata, integrity]
+const parseBunLock: LockfileParser = (content) => {
+  const lock = JSON.parse(content.replace(/,(\s*[}\]])/g, "$1")) as {
+    packages?: Record<string, [string, ...unknown[]]>;
+  };
+  return (name) => {
+    const resolved = lock.packages?.[name]?.[0];
+    return resolved?.startsWith(`${name}@`) ? resolved.slice(name.length + 1) : undefined;
+  };
+};
+
+// Checked in this order; bun.lockb is binary, so it only tells which package manager is used
+const LOCKFILES: { name: string; packageManager: PackageManager; parse?: LockfileParser }[] = [
+  { name: "pnpm-lock.yaml", packageManager: "pnpm", parse: parsePnpmLock },
+  { name: "package-lock.json", packageManager: "npm", parse: parsePackageLock },
+  { name: "yarn.lock", packageManager: "yarn", parse: parseYarnLock },
+  { name: "bun.lock", packageManager: "bun", parse: parseBunLock },
+  { name: "bun.lockb", packageManager: "bun" },
+];
+
+// The lockfile in dir, or null if it has none. Throws if the lockfile can't be parsed.
+export const readLockfile = async (dir: string): Promise<Lockfile | null> => {
+  for (const { name, packageManager, parse } of LOCKFILES) {
+    const file = path.join(dir, name);
+    const content = await fs.readFile(file, "utf-8").catch(() => null);
+    if (content === null) continue;
+    if (!parse) return { file, packageManager, resolve: () => undefined };
+
+    try {
+      return { file, packageManager, resolve: parse(content) };
+    } catch (error) {
+      throw new Error(
+        `Failed to parse ${file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  return null;
+};
+
+// "pnpm@9.1.0+sha512..." from package.json's packageManager field
+export const parsePackageManagerField = (value: unknown): PackageManager | null => {
+  const name = typeof value === "string" ? value.split("@")[0] : null;
+  return name === "npm" || name === "pnpm" || name === "yarn" || name === "bun" ? name : null;
+};
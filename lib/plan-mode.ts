@@ -0,0 +1,29 @@
+// Plan mode: the agent only investigates and writes a plan. Shared by the server
+// (prompting and enforcement) and the client (executing an approved plan).
+
+// Tools that change the repository or run arbitrary commands
+export const PLAN_MODE_BLOCKED_TOOLS = new Set(["write", "edit", "delete", "shell"]);
+
+export const isBlockedInPlanMode = (toolType: string | undefined) =>
+  !!toolType && PLAN_MODE_BLOCKED_TOOLS.has(toolType);
+
+// Wrap a request so the agent answers with a plan instead of doing the work
+export const buildPlanMessage = (message: string) => `📋 PLAN MODE - READ-ONLY
+
+Do NOT modify anything. You may only read files, list directories and search the codebase.
+Any attempt to write, edit or delete files or to run shell commands will stop this run.
+
+Investigate the repository and reply with a structured plan for the request below, using these sections:
+## Summary
+## Steps (numbered, each naming the files it touches)
+## Risks and open questions
+
+Request:
+${message}`;
+
+// Prompt for the real run, with the approved plan attached as context
+export const buildPlanExecutionPrompt = (prompt: string, plan: string) => `${prompt}
+
+Follow this plan, which was reviewed and approved before this run:
+
+${plan}`;
@@ -0,0 +1,125 @@
+import { USER_MESSAGE_EVENT } from "./task-events";
+import type { AgentTask, AgentUpdate, TaskEvent } from "./types";
+
+// One update of a recorded run, at the time it originally happened
+export interface ReplayStep {
+  at: number;
+  update: AgentUpdate;
+}
+
+// The task as it looked before its first update - replay rebuilds everything else
+export const getReplayStartState = (task: AgentTask): AgentTask => ({
+  ...task,
+  status: "running",
+  messages: [],
+  terminalOutput: [],
+  tokenCount: 0,
+  policyLog: [],
+  pendingApproval: undefined,
+  verification: undefined,
+  repairAttempts: undefined,
+  commitSha: undefined,
+  commitError: undefined,
+  plan: undefined,
+  error: undefined,
+});
+
+// From the task's event log: the stream the browser saw, plus the messages that started
+// each run. Those become "round" updates; auto-repair rounds already have one.
+const stepsFromEvents = (events: TaskEvent[]): ReplayStep[] =>
+  events.flatMap(({ update, timestamp }, index): ReplayStep[] => {
+    if (update.type !== USER_MESSAGE_EVENT) {
+      return [{ at: timestamp, update }];
+    }
+    if (events[index - 1]?.update.type === "round") return [];
+    return [{ at: timestamp, update: { type: "round", text: update.userMessage?.text } }];
+  });
+
+// Split a reply into word-sized text deltas spread evenly between from and to
+const textSteps = (text: string, from: number, to: number): ReplayStep[] => {
+  const chunks = text.match(/\S+\s*|\s+/g) || [];
+  const step = chunks.length > 1 ? Math.max(0, to - from) / (chunks.length - 1) : 0;
+  return chunks.map((chunk, i) => ({
+    at: Math.round(from + i * step),
+    update: { type: "text-delta", text: chunk },
+  }));
+};
+
+// Tasks recorded before the event log existed: rebuild the updates from the timestamps
+// on their messages, tool calls and terminal output
+const stepsFromTask = (task: AgentTask): ReplayStep[] => {
+  const steps: ReplayStep[] = [];
+  const toolCallIds = new Set<string>();
+  // Messages without a timestamp happen right after whatever came before them
+  let cursor = task.createdAt;
+
+  for (const message of task.messages) {
+    const start = message.createdAt ?? cursor;
+    cursor = start;
+    if (message.role === "user") {
+      steps.push({ at: start, update: { type: "round", text: message.content } });
+      continue;
+    }
+
+    let replyStart = start;
+    if (message.metadata?.thinking) {
+      steps.push({ at: start, update: { type: "thinking-delta", text: message.metadata.thinking } });
+    }
+
+    const toolCalls = Object.entries(message.metadata?.toolCalls || {}).sort(
+      ([, a], [, b]) => (a.startTime ?? start) - (b.startTime ?? start)
+    );
+    for (const [callId, toolCall] of toolCalls) {
+      toolCallIds.add(callId);
+      const startTime = toolCall.startTime ?? start;
+      steps.push({
+        at: startTime,
+        update: { type: "tool-call-started", callId, toolCall: { type: toolCall.type, args: toolCall.args } },
+      });
+      if (toolCall.result) {
+        const endTime = toolCall.endTime ?? startTime;
+        steps.push({ at: endTime, update: { type: "tool-call-completed", callId, toolCall } });
+        replyStart = Math.max(replyStart, endTime);
+      }
+    }
+
+    const end = Math.max(replyStart, message.lastUpdateTime ?? replyStart);
+    steps.push(...textSteps(message.content, replyStart, end));
+    for (const summary of message.metadata?.summaries || []) {
+      steps.push({ at: end, update: { type: "summary", summary } });
+    }
+    cursor = end;
+  }
+
+  // Verification output (tool calls already get their terminal entries from the updates above)
+  for (const entry of task.terminalOutput) {
+    if (toolCallIds.has(entry.id)) continue;
+    steps.push({
+      at: entry.timestamp,
+      update: { type: "verification", verification: task.verification, terminalEntry: entry },
+    });
+  }
+
+  const end = steps.reduce((latest, step) => Math.max(latest, step.at), task.lastActivityTime ?? cursor);
+  steps.push(
+    task.status === "failed"
+      ? { at: end, update: { type: "error", text: task.error || "Unknown error occurred" } }
+      : {
+          at: end,
+          update: {
+            type: "done",
+            commitSha: task.commitSha,
+            commitError: task.commitError,
+            verification: task.verification,
+            plan: task.plan,
+          },
+        }
+  );
+
+  // Stable sort keeps same-time steps in the order they were added
+  return steps.sort((a, b) => a.at - b.at);
+};
+
+// Everything a replay plays back, in order. Prefers the raw event log when the task has one.
+export const buildReplayTimeline = (task: AgentTask, events: TaskEvent[]): ReplayStep[] =>
+  events.length > 0 ? stepsFromEvents(events) : stepsFromTask(task);
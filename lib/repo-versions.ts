@@ -0,0 +1,24 @@
+import type { RepoInfo, TaskAction } from "./types";
+
+// The framework version filters and badges go by: what the lockfile installed, or for
+// projects without one the declared range minus its leading ^, ~, >= or v (Go modules)
+export const getFrameworkVersion = (repo: RepoInfo): string | null =>
+  repo.frameworkInstalledVersion || repo.frameworkVersion?.replace(/^[\^~=>v\s]+/, "") || null;
+
+// Actions that decide what to upgrade; the agent is told what's actually installed so it
+// doesn't go by the ranges in package.json
+const VERSION_AWARE_ACTIONS: TaskAction[] = ["upgrade-framework", "update-deps"];
+
+export const withInstalledVersions = (prompt: string, action: TaskAction, repo: RepoInfo) => {
+  const installed = Object.entries(repo.installedVersions || {});
+  if (!VERSION_AWARE_ACTIONS.includes(action) || installed.length === 0) return prompt;
+
+  const lockfile = repo.lockfile?.split(/[\\/]/).pop();
+  return [
+    prompt,
+    "",
+    `Installed versions of the direct dependencies (from ${lockfile}):`,
+    ...installed.map(([name, version]) => `- ${name}: ${version}`),
+    ...(repo.packageManager ? ["", `This project uses ${repo.packageManager}; use it to install packages.`] : []),
+  ].join("\n");
+};
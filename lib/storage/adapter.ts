@@ -0,0 +1,33 @@
+import type { AgentTask } from "../types";
+
+export interface ScannedReposEntry {
+  scanKey: string;
+  scannedPath: string;
+  repos: unknown[];
+  scannedAt: number;
+}
+
+// What a backend reports about itself for the Database Info panel
+export interface StorageStats {
+  storage: string; // Human-readable backend name
+  files: Record<string, string>; // Label -> absolute path of each file the backend writes
+  fileSizes: Record<string, number>; // Label -> size in bytes
+  tables: Record<string, number>; // Table (or collection) -> row count
+  schema: Array<{ name: string; description: string }>;
+}
+
+// Everything dbOperations needs from a storage backend. Changes to a task returned by a
+// read are only persisted once it's passed back to saveTask/updateTask.
+export interface StorageAdapter {
+  loadTasks: () => AgentTask[]; // Newest first
+  getTask: (taskId: string) => AgentTask | null;
+  saveTask: (task: AgentTask) => void; // Insert, or replace if it exists
+  updateTask: (task: AgentTask) => void; // No-op for unknown tasks
+  deleteTask: (taskId: string) => void;
+  clearCompleted: () => void;
+  clearAll: () => void;
+  saveScannedRepos: (entry: ScannedReposEntry) => void;
+  getScannedRepos: (scanKey: string) => ScannedReposEntry | null;
+  getLatestScan: () => ScannedReposEntry | null;
+  getStats: () => StorageStats;
+}
@@ -0,0 +1,88 @@
+import fs from "fs";
+import path from "path";
+import type { AgentUpdate, TaskEvent } from "../types";
+
+// Append-only JSONL file per task with every update its runs produced. Lines are never
+// rewritten, so the log survives whatever the task record goes through and can be replayed.
+export const createEventLog = (storageDir: string) => {
+  const eventsDir = path.join(storageDir, "events");
+  // Last seq written per task, with the file size it left behind
+  const cursors = new Map<string, { seq: number; size: number }>();
+
+  const logFile = (taskId: string) =>
+    path.join(eventsDir, `${taskId.replace(/[^a-zA-Z0-9_-]/g, "_")}.jsonl`);
+
+  const fileSize = (file: string) => (fs.existsSync(file) ? fs.statSync(file).size : 0);
+
+  // A crash mid-append leaves a partial last line - skip anything that doesn't parse
+  const readEvents = (file: string): TaskEvent[] => {
+    if (!fs.existsSync(file)) return [];
+    const events: TaskEvent[] = [];
+    for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line) as TaskEvent);
+      } catch {
+        console.warn(`Skipping malformed line in ${file}`);
+      }
+    }
+    return events;
+  };
+
+  // True if the file ends mid-line, e.g. after a crash during an append
+  const endsWithPartialLine = (file: string) => {
+    const size = fileSize(file);
+    if (size === 0) return false;
+    const fd = fs.openSync(file, "r");
+    try {
+      const lastByte = Buffer.alloc(1);
+      fs.readSync(fd, lastByte, 0, 1, size - 1);
+      return lastByte.toString() !== "\n";
+    } finally {
+      fs.closeSync(fd);
+    }
+  };
+
+  return {
+    append: (taskId: string, update: AgentUpdate): TaskEvent => {
+      const file = logFile(taskId);
+      const cursor = cursors.get(taskId);
+      // Unchanged since our last append - otherwise someone else appended (or it's our first
+      // write), so continue from the last seq in the file
+      const upToDate = cursor !== undefined && cursor.size === fileSize(file);
+      const lastSeq = upToDate ? cursor.seq : readEvents(file).at(-1)?.seq ?? 0;
+      const event: TaskEvent = { seq: lastSeq + 1, timestamp: Date.now(), update };
+
+      fs.mkdirSync(eventsDir, { recursive: true });
+      // Start a fresh line rather than gluing this event onto a torn one
+      const prefix = !upToDate && endsWithPartialLine(file) ? "\n" : "";
+      fs.appendFileSync(file, `${prefix}${JSON.stringify(event)}\n`, "utf-8");
+      cursors.set(taskId, { seq: event.seq, size: fileSize(file) });
+      return event;
+    },
+
+    // Events in order, optionally only those after a known seq
+    read: (taskId: string, afterSeq = 0): TaskEvent[] =>
+      readEvents(logFile(taskId)).filter((event) => event.seq > afterSeq),
+
+    remove: (taskId: string) => {
+      cursors.delete(taskId);
+      fs.rmSync(logFile(taskId), { force: true });
+    },
+
+    clear: () => {
+      cursors.clear();
+      fs.rmSync(eventsDir, { recursive: true, force: true });
+    },
+
+    dir: eventsDir,
+
+    // Total bytes across all logs, for the Database Info panel
+    totalSize: () =>
+      fs.existsSync(eventsDir)
+        ? fs.readdirSync(eventsDir).reduce((sum, name) => sum + fileSize(path.join(eventsDir, name)), 0)
+        : 0,
+  };
+};
+
+export type EventLog = ReturnType<typeof createEventLog>;
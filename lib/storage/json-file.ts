@@ -0,0 +1,236 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Crash-safe JSON files shared by several processes: atomic replace, a lock file
+// around read-modify-write cycles, and rotating backups to recover from.
+
+const LOCK_TIMEOUT_MS = 10 * 1000;
+const LOCK_STALE_MS = 30 * 1000; // Longer than any single write should ever take
+const LOCK_RETRY_MS = 25;
+
+const MAX_BACKUPS = 5;
+const BACKUP_INTERVAL_MS = 10 * 60 * 1000;
+
+const sleepSync = (ms: number) => {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+};
+
+export const isProcessAlive = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+};
+
+interface LockFileState {
+  ino: number;
+  mtimeMs: number;
+  content: string;
+}
+
+const readLock = (lockFile: string): LockFileState | null => {
+  try {
+    const { ino, mtimeMs } = fs.statSync(lockFile);
+    return { ino, mtimeMs, content: fs.readFileSync(lockFile, "utf-8") };
+  } catch {
+    return null; // Released in the meantime
+  }
+};
+
+// The same acquisition of the lock - a rename keeps the inode, a fresh lock gets a new owner record
+const isSameLock = (a: LockFileState | null, b: LockFileState | null) =>
+  !!a && !!b && a.ino === b.ino && a.content === b.content;
+
+// A lock held by a process that died, or for far too long, is taken over
+const isStaleLock = (lock: LockFileState) => {
+  try {
+    const { pid, hostname, acquiredAt } = JSON.parse(lock.content);
+    if (Date.now() - acquiredAt > LOCK_STALE_MS) return true;
+    return hostname === os.hostname() && !isProcessAlive(pid);
+  } catch {
+    // Unreadable: either half-written by its owner right now, or garbage left by a crash
+    return Date.now() - lock.mtimeMs > LOCK_STALE_MS;
+  }
+};
+
+// Move a stale lock out of the way. Renaming is atomic, so of several processes that found it
+// stale only one moves it. If what got moved is a fresh lock another process took in between,
+// it's put back - unless yet another lock has been taken since.
+const removeStaleLock = (lockFile: string, stale: LockFileState) => {
+  const moved = `${lockFile}.stale-${randomUUID()}`;
+  try {
+    fs.renameSync(lockFile, moved);
+  } catch {
+    return; // Already moved or released by someone else
+  }
+
+  if (!isSameLock(readLock(moved), stale)) {
+    try {
+      fs.linkSync(moved, lockFile);
+    } catch {
+      // EEXIST: the lock has been taken again meanwhile
+    }
+  }
+  fs.rmSync(moved, { force: true });
+};
+
+// Locks this process holds right now, so nested withFileLock calls don't wait on themselves
+const heldLocks = new Set<string>();
+
+// Run fn while holding an exclusive lock file. Synchronous, like the rest of the JSON store,
+// and re-entrant within a process.
+export const withFileLock = <T>(lockFile: string, fn: () => T): T => {
+  if (heldLocks.has(lockFile)) return fn();
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  const owner = JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: Date.now() });
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockFile, "wx");
+      fs.writeSync(fd, owner);
+      fs.closeSync(fd);
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+
+      const lock = readLock(lockFile);
+      if (lock && isStaleLock(lock)) {
+        console.warn(`Removing stale lock ${lockFile}`);
+        removeStaleLock(lockFile, lock);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${lockFile}`);
+      }
+      sleepSync(LOCK_RETRY_MS);
+    }
+  }
+
+  heldLocks.add(lockFile);
+  try {
+    return fn();
+  } finally {
+    heldLocks.delete(lockFile);
+    // Only release our own lock - if we held it so long it was taken over, it isn't ours anymore
+    if (readLock(lockFile)?.content === owner) {
+      fs.rmSync(lockFile, { force: true });
+    }
+  }
+};
+
+const backupDir = (file: string) => path.join(path.dirname(file), "backups");
+const backupPrefix = (file: string) => `${path.basename(file, ".json")}-`;
+
+// Backups of a file, newest first
+const listBackups = (file: string): string[] => {
+  const dir = backupDir(file);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.startsWith(backupPrefix(file)) && name.endsWith(".json"))
+    .sort()
+    .reverse()
+    .map((name) => path.join(dir, name));
+};
+
+// Copy the current file into backups/ at most every BACKUP_INTERVAL_MS, keeping the newest MAX_BACKUPS
+const rotateBackups = (file: string) => {
+  if (!fs.existsSync(file)) return;
+
+  const backups = listBackups(file);
+  const newest = backups[0];
+  if (newest && Date.now() - fs.statSync(newest).mtimeMs < BACKUP_INTERVAL_MS) return;
+
+  fs.mkdirSync(backupDir(file), { recursive: true });
+  // Sortable timestamp, e.g. tasks-20250110T120000123Z.json
+  const stamp = new Date().toISOString().replace(/[-:.]/g, "");
+  fs.copyFileSync(file, path.join(backupDir(file), `${backupPrefix(file)}${stamp}.json`));
+
+  for (const old of listBackups(file).slice(MAX_BACKUPS)) {
+    fs.rmSync(old, { force: true });
+  }
+};
+
+// Write to a temp file, flush it, then rename over the target - readers see the old or the new file, never half of one
+export const writeJsonAtomic = (file: string, data: unknown) => {
+  rotateBackups(file);
+
+  const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+  const fd = fs.openSync(tempFile, "w");
+  try {
+    fs.writeFileSync(fd, JSON.stringify(data, null, 2), "utf-8");
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempFile, file);
+};
+
+const readJson = <T>(file: string, isValid: (data: unknown) => data is T): T => {
+  const data: unknown = JSON.parse(fs.readFileSync(file, "utf-8"));
+  if (!isValid(data)) {
+    throw new Error("unexpected shape");
+  }
+  return data;
+};
+
+// Move a corrupt file aside and restore the newest valid backup in its place
+const recoverJson = <T>(file: string, isValid: (data: unknown) => data is T): T | null => {
+  if (!fs.existsSync(file)) return null;
+
+  try {
+    return readJson(file, isValid);
+  } catch (error) {
+    const corruptFile = `${file}.corrupt-${Date.now()}`;
+    console.error(`❌ ${file} is corrupt (${error instanceof Error ? error.message : error}), moved to ${corruptFile}`);
+    fs.renameSync(file, corruptFile);
+  }
+
+  for (const backup of listBackups(file)) {
+    try {
+      const data = readJson(backup, isValid);
+      fs.copyFileSync(backup, file);
+      console.log(`♻️ Recovered ${file} from backup ${backup}`);
+      return data;
+    } catch {
+      console.error(`Backup ${backup} is not valid either, trying an older one`);
+    }
+  }
+
+  console.error(`❌ No valid backup of ${file} found - starting empty`);
+  return null;
+};
+
+// Read a JSON file, falling back to the newest valid backup if it's corrupt. The corrupt
+// file is kept next to the original for inspection. Returns null when there's nothing to load.
+// Recovery renames and restores files, so it happens under lockFile - and only if the file is
+// still corrupt once the lock is held, since another process may have replaced it meanwhile.
+export const readJsonWithRecovery = <T>(
+  file: string,
+  isValid: (data: unknown) => data is T,
+  lockFile: string
+): T | null => {
+  if (!fs.existsSync(file)) return null;
+
+  try {
+    return readJson(file, isValid);
+  } catch {
+    return withFileLock(lockFile, () => recoverJson(file, isValid));
+  }
+};
+
+// Identifies the file's current version; a rename by another process changes the inode
+export const getFileVersion = (file: string) => {
+  try {
+    const { ino, mtimeMs, size } = fs.statSync(file);
+    return `${ino}:${mtimeMs}:${size}`;
+  } catch {
+    return null;
+  }
+};
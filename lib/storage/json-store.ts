@@ -0,0 +1,174 @@
+import fs from "fs";
+import path from "path";
+import type { AgentTask } from "../types";
+import type { ScannedReposEntry, StorageAdapter } from "./adapter";
+import { getFileVersion, readJsonWithRecovery, withFileLock, writeJsonAtomic } from "./json-file";
+
+const isArray = <T>(data: unknown): data is T[] => Array.isArray(data);
+
+// Everything in memory, written back as two JSON files on every change. Writes are atomic
+// and serialized across processes by a lock file; each process picks up the others' writes.
+// Reads hand out copies and writes store copies, so the cache only changes through the store.
+export const createJsonStore = (storageDir: string): StorageAdapter => {
+  const tasksFile = path.join(storageDir, "tasks.json");
+  const reposFile = path.join(storageDir, "scanned-repos.json");
+  const lockFile = path.join(storageDir, "json-store.lock");
+
+  let tasks: AgentTask[] = [];
+  let scannedRepos: ScannedReposEntry[] = [];
+  // File versions the in-memory copy was loaded from or last written as
+  let tasksVersion: string | null = null;
+  let reposVersion: string | null = null;
+
+  // Load data from disk (recovering from backups if a file is corrupt)
+  const loadData = () => {
+    tasks = readJsonWithRecovery(tasksFile, isArray<AgentTask>, lockFile) ?? [];
+    scannedRepos = readJsonWithRecovery(reposFile, isArray<ScannedReposEntry>, lockFile) ?? [];
+    tasksVersion = getFileVersion(tasksFile);
+    reposVersion = getFileVersion(reposFile);
+  };
+
+  // Reload if another process replaced either file since we last saw it
+  const syncFromDisk = () => {
+    if (getFileVersion(tasksFile) !== tasksVersion || getFileVersion(reposFile) !== reposVersion) {
+      loadData();
+    }
+  };
+
+  // Apply a change on top of the latest data on disk and write back the affected files, all under the lock
+  const saveData = (files: Array<"tasks" | "repos">, change: () => void) => {
+    try {
+      withFileLock(lockFile, () => {
+        syncFromDisk();
+        change();
+        if (files.includes("tasks")) {
+          writeJsonAtomic(tasksFile, tasks);
+          tasksVersion = getFileVersion(tasksFile);
+        }
+        if (files.includes("repos")) {
+          writeJsonAtomic(reposFile, scannedRepos);
+          reposVersion = getFileVersion(reposFile);
+        }
+      });
+    } catch (error) {
+      console.error("Failed to save data to disk:", error);
+    }
+  };
+
+  try {
+    withFileLock(lockFile, loadData);
+  } catch (error) {
+    console.error("Failed to load data from disk:", error);
+  }
+
+  const fileSize = (file: string) => (fs.existsSync(file) ? fs.statSync(file).size : 0);
+
+  return {
+    loadTasks: () => {
+      syncFromDisk();
+      return structuredClone(tasks).sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    getTask: (taskId) => {
+      syncFromDisk();
+      const task = tasks.find((t) => t.id === taskId);
+      return task ? structuredClone(task) : null;
+    },
+
+    saveTask: (task) =>
+      saveData(["tasks"], () => {
+        const existingIndex = tasks.findIndex((t) => t.id === task.id);
+        if (existingIndex >= 0) {
+          tasks[existingIndex] = structuredClone(task);
+        } else {
+          tasks.unshift(structuredClone(task));
+        }
+      }),
+
+    updateTask: (task) => {
+      syncFromDisk();
+      if (!tasks.some((t) => t.id === task.id)) return;
+
+      saveData(["tasks"], () => {
+        const index = tasks.findIndex((t) => t.id === task.id);
+        if (index >= 0) {
+          tasks[index] = structuredClone(task);
+        }
+      });
+    },
+
+    deleteTask: (taskId) =>
+      saveData(["tasks"], () => {
+        tasks = tasks.filter((t) => t.id !== taskId);
+      }),
+
+    clearCompleted: () =>
+      saveData(["tasks"], () => {
+        tasks = tasks.filter(
+          (t) => t.status !== "completed" && t.status !== "failed" && t.status !== "cancelled"
+        );
+      }),
+
+    clearAll: () =>
+      saveData(["tasks", "repos"], () => {
+        tasks = [];
+        scannedRepos = [];
+      }),
+
+    saveScannedRepos: (entry) =>
+      saveData(["repos"], () => {
+        const existingIndex = scannedRepos.findIndex((r) => r.scanKey === entry.scanKey);
+        if (existingIndex >= 0) {
+          scannedRepos[existingIndex] = structuredClone(entry);
+        } else {
+          scannedRepos.unshift(structuredClone(entry));
+        }
+      }),
+
+    getScannedRepos: (scanKey) => {
+      syncFromDisk();
+      const entry = scannedRepos.find((r) => r.scanKey === scanKey);
+      return entry ? structuredClone(entry) : null;
+    },
+
+    getLatestScan: () => {
+      syncFromDisk();
+      const latest = [...scannedRepos].sort((a, b) => b.scannedAt - a.scannedAt)[0];
+      return latest ? structuredClone(latest) : null;
+    },
+
+    getStats: () => {
+      syncFromDisk();
+      return {
+        storage: "JSON files",
+        files: { tasks: tasksFile, repos: reposFile },
+        fileSizes: { tasks: fileSize(tasksFile), repos: fileSize(reposFile) },
+        tables: {
+          tasks: tasks.length,
+          messages: tasks.reduce((sum, task) => sum + task.messages.length, 0),
+          tool_calls: tasks.reduce(
+            (sum, task) =>
+              sum +
+              task.messages.reduce(
+                (msgSum, msg) => msgSum + (msg.metadata?.toolCalls ? Object.keys(msg.metadata.toolCalls).length : 0),
+                0
+              ),
+            0
+          ),
+          terminal_output: tasks.reduce((sum, task) => sum + task.terminalOutput.length, 0),
+          scanned_repos: scannedRepos.length,
+        },
+        schema: [
+          {
+            name: "tasks.json",
+            description: "Agent tasks with messages and tool calls",
+          },
+          {
+            name: "scanned-repos.json",
+            description: "Cached repository scan results",
+          },
+        ],
+      };
+    },
+  };
+};
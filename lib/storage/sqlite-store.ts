@@ -0,0 +1,454 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import type { AgentTask, ChatMessage, TerminalOutput, ToolCall } from "../types";
+import type { ScannedReposEntry, StorageAdapter } from "./adapter";
+import { createJsonStore } from "./json-store";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS tasks (
+  id TEXT PRIMARY KEY,
+  repo_path TEXT NOT NULL,
+  repo_name TEXT NOT NULL,
+  action TEXT NOT NULL,
+  status TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  token_count INTEGER NOT NULL DEFAULT 0,
+  last_activity_time INTEGER,
+  session_id TEXT,
+  data TEXT NOT NULL -- Remaining AgentTask fields as JSON
+);
+CREATE INDEX IF NOT EXISTS tasks_created_at ON tasks (created_at DESC);
+
+CREATE TABLE IF NOT EXISTS messages (
+  task_id TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  role TEXT NOT NULL,
+  content TEXT NOT NULL,
+  thinking TEXT,
+  summaries TEXT, -- JSON array
+  is_streaming INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER,
+  last_update_time INTEGER,
+  PRIMARY KEY (task_id, position) -- Client-generated IDs aren't guaranteed unique
+);
+
+CREATE TABLE IF NOT EXISTS tool_calls (
+  task_id TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+  message_id TEXT NOT NULL,
+  message_position INTEGER NOT NULL,
+  call_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  args TEXT, -- JSON
+  result TEXT, -- JSON
+  start_time INTEGER,
+  end_time INTEGER,
+  is_stuck INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (task_id, message_position, call_id)
+);
+
+CREATE TABLE IF NOT EXISTS terminal_output (
+  task_id TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  timestamp INTEGER NOT NULL,
+  command TEXT,
+  output TEXT,
+  exit_code INTEGER,
+  is_running INTEGER NOT NULL DEFAULT 0,
+  tool_type TEXT,
+  tool_args TEXT,
+  PRIMARY KEY (task_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS scanned_repos (
+  scan_key TEXT PRIMARY KEY,
+  scanned_path TEXT NOT NULL,
+  repos TEXT NOT NULL, -- JSON array
+  scanned_at INTEGER NOT NULL
+);
+`;
+
+interface TaskRow {
+  id: string;
+  repo_path: string;
+  repo_name: string;
+  action: AgentTask["action"];
+  status: AgentTask["status"];
+  created_at: number;
+  token_count: number;
+  last_activity_time: number | null;
+  session_id: string | null;
+  data: string;
+}
+
+interface MessageRow {
+  task_id: string;
+  id: string;
+  position: number;
+  role: ChatMessage["role"];
+  content: string;
+  thinking: string | null;
+  summaries: string | null;
+  is_streaming: number;
+  created_at: number | null;
+  last_update_time: number | null;
+}
+
+interface ToolCallRow {
+  task_id: string;
+  message_position: number;
+  call_id: string;
+  type: string;
+  args: string | null;
+  result: string | null;
+  start_time: number | null;
+  end_time: number | null;
+  is_stuck: number;
+}
+
+interface TerminalOutputRow {
+  task_id: string;
+  id: string;
+  timestamp: number;
+  command: string | null;
+  output: string | null;
+  exit_code: number | null;
+  is_running: number;
+  tool_type: string | null;
+  tool_args: string | null;
+}
+
+interface ScannedReposRow {
+  scan_key: string;
+  scanned_path: string;
+  repos: string;
+  scanned_at: number;
+}
+
+// SQLite has no undefined - map NULL back to a missing field
+const optional = <T>(value: T | null) => (value === null ? undefined : value);
+const parseJson = <T>(value: string | null): T | undefined =>
+  value === null ? undefined : (JSON.parse(value) as T);
+
+const toScannedReposEntry = (row: ScannedReposRow): ScannedReposEntry => ({
+  scanKey: row.scan_key,
+  scannedPath: row.scanned_path,
+  repos: JSON.parse(row.repos),
+  scannedAt: row.scanned_at,
+});
+
+// Normalized tables in a single database file; a task write only touches that task's rows
+export const createSqliteStore = (storageDir: string): StorageAdapter => {
+  const dbFile = path.join(storageDir, "tasks.db");
+  const isNewDatabase = !fs.existsSync(dbFile);
+
+  const db = new Database(dbFile);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.exec(SCHEMA);
+
+  const statements = {
+    upsertTask: db.prepare(`
+      INSERT INTO tasks (id, repo_path, repo_name, action, status, created_at, token_count, last_activity_time, session_id, data)
+      VALUES (@id, @repo_path, @repo_name, @action, @status, @created_at, @token_count, @last_activity_time, @session_id, @data)
+      ON CONFLICT (id) DO UPDATE SET
+        repo_path = excluded.repo_path,
+        repo_name = excluded.repo_name,
+        action = excluded.action,
+        status = excluded.status,
+        created_at = excluded.created_at,
+        token_count = excluded.token_count,
+        last_activity_time = excluded.last_activity_time,
+        session_id = excluded.session_id,
+        data = excluded.data
+    `),
+    insertMessage: db.prepare(`
+      INSERT INTO messages (task_id, id, position, role, content, thinking, summaries, is_streaming, created_at, last_update_time)
+      VALUES (@task_id, @id, @position, @role, @content, @thinking, @summaries, @is_streaming, @created_at, @last_update_time)
+    `),
+    insertToolCall: db.prepare(`
+      INSERT INTO tool_calls (task_id, message_id, message_position, call_id, position, type, args, result, start_time, end_time, is_stuck)
+      VALUES (@task_id, @message_id, @message_position, @call_id, @position, @type, @args, @result, @start_time, @end_time, @is_stuck)
+    `),
+    insertTerminalOutput: db.prepare(`
+      INSERT INTO terminal_output (task_id, id, position, timestamp, command, output, exit_code, is_running, tool_type, tool_args)
+      VALUES (@task_id, @id, @position, @timestamp, @command, @output, @exit_code, @is_running, @tool_type, @tool_args)
+    `),
+    deleteMessages: db.prepare("DELETE FROM messages WHERE task_id = ?"),
+    deleteToolCalls: db.prepare("DELETE FROM tool_calls WHERE task_id = ?"),
+    deleteTerminalOutput: db.prepare("DELETE FROM terminal_output WHERE task_id = ?"),
+    taskExists: db.prepare("SELECT 1 FROM tasks WHERE id = ?"),
+    deleteTask: db.prepare("DELETE FROM tasks WHERE id = ?"),
+    upsertScannedRepos: db.prepare(`
+      INSERT INTO scanned_repos (scan_key, scanned_path, repos, scanned_at)
+      VALUES (@scan_key, @scanned_path, @repos, @scanned_at)
+      ON CONFLICT (scan_key) DO UPDATE SET
+        scanned_path = excluded.scanned_path,
+        repos = excluded.repos,
+        scanned_at = excluded.scanned_at
+    `),
+    getScannedRepos: db.prepare("SELECT * FROM scanned_repos WHERE scan_key = ?"),
+    getLatestScan: db.prepare("SELECT * FROM scanned_repos ORDER BY scanned_at DESC LIMIT 1"),
+  };
+
+  const writeTask = db.transaction((task: AgentTask) => {
+    const {
+      id,
+      repoPath,
+      repoName,
+      action,
+      status,
+      createdAt,
+      tokenCount,
+      lastActivityTime,
+      sessionId,
+      messages,
+      terminalOutput,
+      ...data
+    } = task;
+
+    statements.upsertTask.run({
+      id,
+      repo_path: repoPath,
+      repo_name: repoName,
+      action,
+      status,
+      created_at: createdAt,
+      token_count: tokenCount || 0,
+      last_activity_time: lastActivityTime ?? null,
+      session_id: sessionId ?? null,
+      data: JSON.stringify(data),
+    });
+
+    // Child rows are replaced wholesale - simpler than diffing, and still scoped to one task
+    statements.deleteMessages.run(id);
+    statements.deleteToolCalls.run(id);
+    statements.deleteTerminalOutput.run(id);
+
+    messages.forEach((msg, position) => {
+      statements.insertMessage.run({
+        task_id: id,
+        id: msg.id,
+        position,
+        role: msg.role,
+        content: msg.content,
+        thinking: msg.metadata?.thinking ?? null,
+        summaries: msg.metadata?.summaries ? JSON.stringify(msg.metadata.summaries) : null,
+        is_streaming: msg.isStreaming ? 1 : 0,
+        created_at: msg.createdAt ?? null,
+        last_update_time: msg.lastUpdateTime ?? null,
+      });
+
+      Object.entries(msg.metadata?.toolCalls || {}).forEach(([callId, toolCall], toolPosition) => {
+        statements.insertToolCall.run({
+          task_id: id,
+          message_id: msg.id,
+          message_position: position,
+          call_id: callId,
+          position: toolPosition,
+          type: toolCall.type,
+          args: toolCall.args ? JSON.stringify(toolCall.args) : null,
+          result: toolCall.result ? JSON.stringify(toolCall.result) : null,
+          start_time: toolCall.startTime ?? null,
+          end_time: toolCall.endTime ?? null,
+          is_stuck: toolCall.isStuck ? 1 : 0,
+        });
+      });
+    });
+
+    terminalOutput.forEach((entry, position) => {
+      statements.insertTerminalOutput.run({
+        task_id: id,
+        id: entry.id,
+        position,
+        timestamp: entry.timestamp,
+        command: entry.command ?? null,
+        output: entry.output ?? null,
+        exit_code: entry.exitCode ?? null,
+        is_running: entry.isRunning ? 1 : 0,
+        tool_type: entry.toolType ?? null,
+        tool_args: entry.toolArgs ?? null,
+      });
+    });
+  });
+
+  // Rebuild AgentTask objects from their rows; pass a task ID to read just that task
+  const readTasks = (taskId?: string): AgentTask[] => {
+    const where = taskId === undefined ? "" : "WHERE task_id = @taskId";
+    const params = taskId === undefined ? {} : { taskId };
+
+    const taskRows = db
+      .prepare(
+        `SELECT * FROM tasks ${taskId === undefined ? "" : "WHERE id = @taskId"} ORDER BY created_at DESC`
+      )
+      .all(params) as TaskRow[];
+    if (taskRows.length === 0) return [];
+
+    const messageRows = db
+      .prepare(`SELECT * FROM messages ${where} ORDER BY task_id, position`)
+      .all(params) as MessageRow[];
+    const toolCallRows = db
+      .prepare(`SELECT * FROM tool_calls ${where} ORDER BY task_id, message_position, position`)
+      .all(params) as ToolCallRow[];
+    const terminalRows = db
+      .prepare(`SELECT * FROM terminal_output ${where} ORDER BY task_id, position`)
+      .all(params) as TerminalOutputRow[];
+
+    const toolCallsByMessage = new Map<string, Record<string, ToolCall>>();
+    for (const row of toolCallRows) {
+      const key = `${row.task_id}/${row.message_position}`;
+      const toolCalls = toolCallsByMessage.get(key) || {};
+      toolCalls[row.call_id] = {
+        type: row.type,
+        args: parseJson(row.args),
+        result: parseJson(row.result),
+        startTime: optional(row.start_time),
+        endTime: optional(row.end_time),
+        isStuck: row.is_stuck ? true : undefined,
+      };
+      toolCallsByMessage.set(key, toolCalls);
+    }
+
+    const messagesByTask = new Map<string, ChatMessage[]>();
+    for (const row of messageRows) {
+      const toolCalls = toolCallsByMessage.get(`${row.task_id}/${row.position}`);
+      const summaries = parseJson<string[]>(row.summaries);
+      const hasMetadata = row.thinking !== null || summaries || toolCalls;
+      const messages = messagesByTask.get(row.task_id) || [];
+      messages.push({
+        id: row.id,
+        role: row.role,
+        content: row.content,
+        metadata: hasMetadata
+          ? { thinking: optional(row.thinking), toolCalls, summaries }
+          : undefined,
+        isStreaming: row.is_streaming ? true : undefined,
+        createdAt: optional(row.created_at),
+        lastUpdateTime: optional(row.last_update_time),
+      });
+      messagesByTask.set(row.task_id, messages);
+    }
+
+    const terminalByTask = new Map<string, TerminalOutput[]>();
+    for (const row of terminalRows) {
+      const entries = terminalByTask.get(row.task_id) || [];
+      entries.push({
+        id: row.id,
+        timestamp: row.timestamp,
+        command: optional(row.command),
+        output: optional(row.output),
+        exitCode: optional(row.exit_code),
+        isRunning: row.is_running ? true : undefined,
+        toolType: optional(row.tool_type),
+        toolArgs: optional(row.tool_args),
+      });
+      terminalByTask.set(row.task_id, entries);
+    }
+
+    return taskRows.map((row) => ({
+      ...(JSON.parse(row.data) as Partial<AgentTask>),
+      id: row.id,
+      repoPath: row.repo_path,
+      repoName: row.repo_name,
+      action: row.action,
+      status: row.status,
+      createdAt: row.created_at,
+      tokenCount: row.token_count,
+      lastActivityTime: optional(row.last_activity_time),
+      sessionId: optional(row.session_id),
+      messages: messagesByTask.get(row.id) || [],
+      terminalOutput: terminalByTask.get(row.id) || [],
+    }));
+  };
+
+  const countRows = (table: string) =>
+    (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+
+  const store: StorageAdapter = {
+    loadTasks: () => readTasks(),
+
+    getTask: (taskId) => readTasks(taskId)[0] || null,
+
+    saveTask: (task) => writeTask(task),
+
+    updateTask: (task) => {
+      if (statements.taskExists.get(task.id)) {
+        writeTask(task);
+      }
+    },
+
+    deleteTask: (taskId) => {
+      statements.deleteTask.run(taskId);
+    },
+
+    clearCompleted: () => {
+      db.prepare("DELETE FROM tasks WHERE status IN ('completed', 'failed', 'cancelled')").run();
+    },
+
+    clearAll: () => {
+      db.exec("DELETE FROM tasks; DELETE FROM scanned_repos;");
+    },
+
+    saveScannedRepos: (entry) => {
+      statements.upsertScannedRepos.run({
+        scan_key: entry.scanKey,
+        scanned_path: entry.scannedPath,
+        repos: JSON.stringify(entry.repos),
+        scanned_at: entry.scannedAt,
+      });
+    },
+
+    getScannedRepos: (scanKey) => {
+      const row = statements.getScannedRepos.get(scanKey) as ScannedReposRow | undefined;
+      return row ? toScannedReposEntry(row) : null;
+    },
+
+    getLatestScan: () => {
+      const row = statements.getLatestScan.get() as ScannedReposRow | undefined;
+      return row ? toScannedReposEntry(row) : null;
+    },
+
+    getStats: () => {
+      const walFile = `${dbFile}-wal`;
+      return {
+        storage: "SQLite (better-sqlite3)",
+        files: { database: dbFile },
+        fileSizes: {
+          database:
+            fs.statSync(dbFile).size + (fs.existsSync(walFile) ? fs.statSync(walFile).size : 0),
+        },
+        tables: {
+          tasks: countRows("tasks"),
+          messages: countRows("messages"),
+          tool_calls: countRows("tool_calls"),
+          terminal_output: countRows("terminal_output"),
+          scanned_repos: countRows("scanned_repos"),
+        },
+        schema: [
+          { name: "tasks", description: "One row per agent task; less common fields in a JSON column" },
+          { name: "messages", description: "Chat messages, ordered per task" },
+          { name: "tool_calls", description: "Tool calls made in each assistant message" },
+          { name: "terminal_output", description: "Commands and verification output per task" },
+          { name: "scanned_repos", description: "Cached repository scan results" },
+        ],
+      };
+    },
+  };
+
+  // First run on SQLite: bring over the JSON store's tasks and latest scan (the files are left in place)
+  if (isNewDatabase && fs.existsSync(path.join(storageDir, "tasks.json"))) {
+    const jsonStore = createJsonStore(storageDir);
+    const tasks = jsonStore.loadTasks();
+    const latestScan = jsonStore.getLatestScan();
+    db.transaction(() => {
+      tasks.forEach((task) => writeTask(task));
+      if (latestScan) store.saveScannedRepos(latestScan);
+    })();
+    console.log(`📦 Imported ${tasks.length} task(s) from tasks.json into ${dbFile}`);
+  }
+
+  return store;
+};
@@ -0,0 +1,422 @@
+import { AgentProtocolError, parseAgentUpdate } from "./agent-events";
+import type { AgentTask, AgentUpdate, ChatMessage, ToolCall } from "./types";
+
+// Client-side reduction of an agent's SSE updates into task state. Live streams use the
+// wall clock; replays pass the recorded time of each update so durations come out the same.
+export interface StreamUpdateContext {
+  updateTask: (updater: (task: AgentTask) => AgentTask) => void;
+  setActiveToolCalls: (updater: (prev: Set<string>) => Set<string>) => void;
+  now: () => number;
+}
+
+// Tool calls and their results as shown in the terminal panel
+const formatArgs = (args: Record<string, unknown> | undefined) => {
+  if (!args) return "";
+  const key = Object.keys(args)[0];
+  const value = args[key];
+  if (typeof value === "string" && value.length < 60) {
+    return value;
+  }
+  return JSON.stringify(args, null, 2).slice(0, 200);
+};
+
+const formatResult = (result: ToolCall["result"]) =>
+  result?.value
+    ? typeof result.value === "string"
+      ? result.value
+      : JSON.stringify(result.value, null, 2)
+    : result?.error
+    ? typeof result.error === "string"
+      ? result.error
+      : JSON.stringify(result.error, null, 2)
+    : "";
+
+// Returns a handler for one task's updates. It tracks which message the agent is writing
+// to: initially assistantMessageId, then the new one each "round" starts.
+export const createStreamUpdateHandler = (
+  { updateTask, setActiveToolCalls, now }: StreamUpdateContext,
+  assistantMessageId = ""
+) => {
+  let currentMessageId = assistantMessageId;
+
+  // Helper to update assistant message
+  const updateAssistantMessage = (updater: (msg: ChatMessage) => ChatMessage) => {
+    updateTask((task) => ({
+      ...task,
+      messages: task.messages.map((msg) =>
+        msg.id === currentMessageId ? { ...updater(msg), lastUpdateTime: now() } : msg
+      ),
+    }));
+  };
+
+  const apply = (data: AgentUpdate) => {
+    // Update last activity time for all updates
+    updateTask((task) => ({
+      ...task,
+      lastActivityTime: now(),
+    }));
+
+    switch (data.type) {
+      case "session":
+        // The run has started; store session ID for multi-turn conversations
+        if (data.sessionId) {
+          updateTask((task) => ({
+            ...task,
+            status: "running",
+            sessionId: data.sessionId,
+            worktree: data.worktree ?? task.worktree,
+            baseCommit: data.baseCommit ?? task.baseCommit,
+          }));
+        }
+        break;
+
+      case "text-delta":
+        updateAssistantMessage((msg) => ({
+          ...msg,
+          content: msg.content + (data.text || ""),
+        }));
+        break;
+
+      case "thinking-delta":
+        updateAssistantMessage((msg) => ({
+          ...msg,
+          metadata: {
+            ...msg.metadata,
+            thinking: (msg.metadata?.thinking || "") + (data.text || ""),
+            toolCalls: msg.metadata?.toolCalls || {},
+            summaries: msg.metadata?.summaries || [],
+          },
+        }));
+        break;
+
+      case "thinking-completed":
+        updateAssistantMessage((msg) => ({
+          ...msg,
+          metadata: {
+            ...msg.metadata,
+            thinking: (msg.metadata?.thinking || "") + ` ✓ (${data.thinkingDurationMs}ms)`,
+            toolCalls: msg.metadata?.toolCalls || {},
+            summaries: msg.metadata?.summaries || [],
+          },
+        }));
+        break;
+
+      case "tool-call-started":
+        if (data.callId && data.toolCall) {
+          setActiveToolCalls((prev) => new Set(prev).add(data.callId!));
+          const toolWithTime = {
+            ...data.toolCall,
+            startTime: now(),
+          };
+          updateAssistantMessage((msg) => ({
+            ...msg,
+            metadata: {
+              ...msg.metadata,
+              toolCalls: {
+                ...msg.metadata?.toolCalls,
+                [data.callId!]: toolWithTime,
+              },
+              thinking: msg.metadata?.thinking,
+              summaries: msg.metadata?.summaries || [],
+            },
+          }));
+
+          // Track ALL tool calls in terminal output for visibility
+          const terminalEntry = {
+            id: data.callId!,
+            timestamp: now(),
+            toolType: data.toolCall.type,
+            command: data.toolCall.type === "shell" ? String(data.toolCall.args?.command || "") : undefined,
+            toolArgs: data.toolCall.type !== "shell" ? formatArgs(data.toolCall.args) : undefined,
+            isRunning: true,
+          };
+          updateTask((task) => ({
+            ...task,
+            terminalOutput: [...task.terminalOutput, terminalEntry],
+          }));
+        }
+        break;
+
+      case "tool-call-completed":
+        if (data.callId && data.toolCall) {
+          setActiveToolCalls((prev) => {
+            const next = new Set(prev);
+            next.delete(data.callId!);
+            return next;
+          });
+          updateAssistantMessage((msg) => {
+            const existingCall = msg.metadata?.toolCalls?.[data.callId!];
+            const toolWithTime = {
+              ...data.toolCall!,
+              startTime: existingCall?.startTime,
+              endTime: now(),
+            };
+            return {
+              ...msg,
+              metadata: {
+                ...msg.metadata,
+                toolCalls: {
+                  ...msg.metadata?.toolCalls,
+                  [data.callId!]: toolWithTime,
+                },
+                thinking: msg.metadata?.thinking,
+                summaries: msg.metadata?.summaries || [],
+              },
+            };
+          });
+
+          // Update shell command output in terminal
+          if (data.toolCall.type === "shell") {
+            updateTask((task) => ({
+              ...task,
+              terminalOutput: task.terminalOutput.map((entry) =>
+                entry.id === data.callId
+                  ? {
+                      ...entry,
+                      output: formatResult(data.toolCall?.result),
+                      exitCode: data.toolCall?.result?.status === "success" ? 0 : 1,
+                      isRunning: false,
+                    }
+                  : entry
+              ),
+            }));
+          }
+        }
+        break;
+
+      case "summary":
+        if (data.summary) {
+          updateAssistantMessage((msg) => ({
+            ...msg,
+            metadata: {
+              ...msg.metadata,
+              summaries: [...(msg.metadata?.summaries || []), data.summary!],
+              toolCalls: msg.metadata?.toolCalls || {},
+              thinking: msg.metadata?.thinking,
+            },
+          }));
+        }
+        break;
+
+      case "token-delta":
+        if (data.tokens) {
+          updateTask((task) => ({
+            ...task,
+            tokenCount: task.tokenCount + data.tokens!,
+          }));
+        }
+        break;
+
+      case "error":
+        updateTask((task) => ({
+          ...task,
+          status: "failed",
+          error: data.text || "Unknown error occurred",
+        }));
+        break;
+
+      case "round": {
+        // The server started another round in the same session (an auto-repair attempt)
+        const roundUserMessage: ChatMessage = {
+          id: `user-${now()}`,
+          role: "user",
+          content: data.text || "",
+          createdAt: now(),
+        };
+        currentMessageId = `assistant-${now()}`;
+        const roundAssistantMessage: ChatMessage = {
+          id: currentMessageId,
+          role: "assistant",
+          content: "",
+          createdAt: now(),
+          isStreaming: true,
+          metadata: {
+            thinking: "",
+            toolCalls: {},
+            summaries: [],
+          },
+        };
+        updateTask((task) => ({
+          ...task,
+          status: "running",
+          repairAttempts: data.repairAttempt ?? task.repairAttempts,
+          messages: [
+            ...task.messages.map((msg) => (msg.isStreaming ? { ...msg, isStreaming: false } : msg)),
+            roundUserMessage,
+            roundAssistantMessage,
+          ],
+        }));
+        break;
+      }
+
+      case "verification":
+        // Post-task build/lint/test progress
+        updateTask((task) => ({
+          ...task,
+          verification: data.verification,
+          terminalOutput: data.terminalEntry
+            ? [
+                ...task.terminalOutput.filter((entry) => entry.id !== data.terminalEntry!.id),
+                data.terminalEntry,
+              ]
+            : task.terminalOutput,
+        }));
+        break;
+
+      case "policy":
+        // Tool policy decision for a call the agent just started
+        if (data.policyEntry) {
+          updateTask((task) => ({
+            ...task,
+            policyLog: [...(task.policyLog || []), data.policyEntry!],
+          }));
+        }
+        break;
+
+      case "approval":
+        // Paused on a tool call the policy holds for the user
+        updateAssistantMessage((msg) => ({
+          ...msg,
+          isStreaming: false,
+        }));
+        updateTask((task) => ({
+          ...task,
+          status: "awaiting-approval",
+          pendingApproval: data.approval,
+        }));
+        break;
+
+      case "snapshot":
+        // Attached to a run already in progress - take the server's view of the task
+        if (data.task) {
+          const snapshot = data.task;
+          const last = snapshot.messages[snapshot.messages.length - 1];
+          const streaming = last?.role === "assistant" && last.isStreaming ? last : null;
+          currentMessageId = streaming?.id ?? "";
+          setActiveToolCalls(
+            () =>
+              new Set(
+                Object.entries(streaming?.metadata?.toolCalls || {})
+                  .filter(([, toolCall]) => !toolCall.endTime)
+                  .map(([callId]) => callId)
+              )
+          );
+          updateTask(() => snapshot);
+        }
+        break;
+
+      case "done":
+        updateAssistantMessage((msg) => ({
+          ...msg,
+          isStreaming: false,
+        }));
+        updateTask((task) => ({
+          ...task,
+          status: "completed",
+          commitSha: data.commitSha ?? task.commitSha,
+          commitError: data.commitError,
+          verification: data.verification ?? task.verification,
+          plan: data.plan ?? task.plan,
+        }));
+        break;
+    }
+  };
+
+  return {
+    apply,
+    // The message the agent is currently writing to
+    assistantMessageId: () => currentMessageId,
+  };
+};
+
+export type StreamUpdateHandler = ReturnType<typeof createStreamUpdateHandler>;
+
+// Updates after which the server ends the stream
+export const isRunEnd = (update: AgentUpdate) =>
+  update.type === "done" || update.type === "error" || update.type === "approval";
+
+// Read a Server-Sent Events body, calling onUpdate with each event's data and id (if it has one).
+// Resolves when the server ends the stream or signal aborts it; rejects if the connection
+// drops, or with an AgentProtocolError for an event the schema doesn't accept.
+export const readSseStream = async (
+  body: ReadableStream<Uint8Array>,
+  onUpdate: (update: AgentUpdate, id?: number) => void,
+  signal?: AbortSignal
+) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  signal?.addEventListener("abort", () => reader.cancel().catch(() => {}), { once: true });
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done || signal?.aborted) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split("\n\n");
+      buffer = blocks.pop() || "";
+
+      for (const block of blocks) {
+        let id: number | undefined;
+        let data: string | null = null;
+        for (const line of block.split("\n")) {
+          if (line.startsWith("id: ")) id = Number.parseInt(line.slice(4), 10);
+          if (line.startsWith("data: ")) data = line.slice(6);
+        }
+        if (data === null) continue;
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(data);
+        } catch {
+          throw new AgentProtocolError(`Protocol error: event data is not JSON (${data.substring(0, 100)})`);
+        }
+        onUpdate(parseAgentUpdate(parsed), Number.isFinite(id) ? id : undefined);
+      }
+    }
+  } catch (error) {
+    // Stop the download too - nothing after a bad event can be trusted
+    reader.cancel().catch(() => {});
+    throw error;
+  }
+};
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+// Attach to a task's server-side stream and follow it until the run ends: after lastEventId
+// when picking up a dropped stream, from a snapshot of the task otherwise. Reconnects with
+// backoff while the connection keeps dropping; throws once it gives up, or straight away on
+// a protocol error (reconnecting would only replay the same event). Returns quietly once
+// signal aborts.
+export const followTaskStream = async (
+  taskId: string,
+  handler: StreamUpdateHandler,
+  lastEventId?: number,
+  signal?: AbortSignal
+) => {
+  let resumeFrom = lastEventId;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/stream`, {
+        headers: resumeFrom !== undefined ? { "Last-Event-ID": String(resumeFrom) } : {},
+        signal,
+      });
+      if (!res.ok || !res.body) {
+        throw new Error(`Failed to attach to task stream (${res.status})`);
+      }
+      await readSseStream(res.body, (update, id) => {
+        if (id !== undefined) resumeFrom = id;
+        attempt = 0; // Got through - start backing off from scratch next time
+        handler.apply(update);
+      }, signal);
+      return;
+    } catch (error) {
+      if (signal?.aborted) return;
+      if (error instanceof AgentProtocolError || attempt >= MAX_RECONNECT_ATTEMPTS) throw error;
+      console.warn(`[Task ${taskId}] Stream dropped, reconnecting (attempt ${attempt}):`, error);
+      await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+    }
+  }
+};
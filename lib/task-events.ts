@@ -0,0 +1,131 @@
+import type { AgentUpdate, ChatMessage, TaskEvent } from "./types";
+
+// The chat view of a task is a fold over its event log: runs apply each event as it's
+// logged, and rebuildMessages replays a whole log to get the same messages back.
+
+// Logged by the runner around the agent's own updates: the message that started a run,
+// and the end of the agent's stream (before verification, which may take a while)
+export const USER_MESSAGE_EVENT = "user-message";
+export const TURN_END_EVENT = "turn-end";
+
+const closeStreaming = (message: ChatMessage | null, timestamp: number) => {
+  if (message?.isStreaming) {
+    message.isStreaming = false;
+    message.lastUpdateTime = timestamp;
+  }
+};
+
+// Fold a single SDK update into the assistant message being built
+const applyUpdateToMessage = (
+  current: ChatMessage | null,
+  update: AgentUpdate,
+  createMessage: () => ChatMessage,
+  now: number
+): ChatMessage | null => {
+  switch (update.type) {
+    case "thinking-delta": {
+      const message = current ?? createMessage();
+      message.metadata = message.metadata ?? { toolCalls: {}, summaries: [] };
+      message.metadata.thinking = (message.metadata.thinking || "") + (update.text || "");
+      message.lastUpdateTime = now;
+      return message;
+    }
+    case "text-delta": {
+      const message = current ?? createMessage();
+      message.content += update.text || "";
+      message.lastUpdateTime = now;
+      return message;
+    }
+    case "tool-call-started": {
+      const message = current ?? createMessage();
+      if (update.callId && update.toolCall) {
+        message.metadata = message.metadata ?? { toolCalls: {}, summaries: [] };
+        message.metadata.toolCalls = message.metadata.toolCalls ?? {};
+        message.metadata.toolCalls[update.callId] = {
+          type: update.toolCall.type,
+          args: update.toolCall.args,
+          startTime: now,
+        };
+        message.lastUpdateTime = now;
+      }
+      return message;
+    }
+    case "tool-call-completed": {
+      const existingCall =
+        current && update.callId ? current.metadata?.toolCalls?.[update.callId] : undefined;
+      if (current && existingCall) {
+        existingCall.result = update.toolCall?.result;
+        existingCall.endTime = now;
+        current.lastUpdateTime = now;
+      }
+      return current;
+    }
+    case "summary": {
+      if (current && update.summary) {
+        current.metadata = current.metadata ?? { toolCalls: {}, summaries: [] };
+        current.metadata.summaries = [...(current.metadata.summaries || []), update.summary];
+        current.lastUpdateTime = now;
+      }
+      return current;
+    }
+    default:
+      return current;
+  }
+};
+
+// Apply one logged event to a task's messages (in place). Message ids come from the
+// event that created them, so replaying the log reproduces the ids too.
+export const applyTaskEvent = (messages: ChatMessage[], event: TaskEvent): ChatMessage[] => {
+  const { update, seq, timestamp } = event;
+  const last = messages[messages.length - 1];
+  const streaming = last?.role === "assistant" && last.isStreaming ? last : null;
+
+  switch (update.type) {
+    case USER_MESSAGE_EVENT:
+      closeStreaming(streaming, timestamp);
+      messages.push({
+        id: `msg-${seq}`,
+        role: "user",
+        content: update.userMessage?.text || "",
+        createdAt: timestamp,
+        lastUpdateTime: timestamp,
+      });
+      return messages;
+
+    case "error":
+      // Surface the error in the reply it cut short, unless the agent already said something
+      if (streaming && !streaming.content) {
+        streaming.content = `Error: ${update.text || "Unknown error"}`;
+      }
+      closeStreaming(streaming, timestamp);
+      return messages;
+
+    case TURN_END_EVENT:
+    case "approval":
+    case "done":
+      closeStreaming(streaming, timestamp);
+      return messages;
+
+    default: {
+      const createMessage = (): ChatMessage => {
+        const message: ChatMessage = {
+          id: `msg-${seq}`,
+          role: "assistant",
+          content: "",
+          createdAt: timestamp,
+          isStreaming: true,
+          lastUpdateTime: timestamp,
+          metadata: { thinking: "", toolCalls: {}, summaries: [] },
+        };
+        messages.push(message);
+        return message;
+      };
+      applyUpdateToMessage(streaming, update, createMessage, timestamp);
+      return messages;
+    }
+  }
+};
+
+// Rebuild a task's chat messages from its full event log
+export const rebuildMessages = (events: TaskEvent[]): ChatMessage[] =>
+  events.reduce<ChatMessage[]>((messages, event) => applyTaskEvent(messages, event), []);
@@ -0,0 +1,277 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import { agentProvider } from "./agent-provider";
+import { currentRunOwner, dbOperations } from "./db";
+import {
+  DEFAULT_MODEL,
+  acquireSession,
+  agentSessions,
+  buildContextualMessage,
+  buildResumeMessage,
+  prepareWorkingDirectory,
+  runSubmission,
+  saveRunState,
+  submitToSession,
+} from "./agent-runner";
+import { buildPlanMessage } from "./plan-mode";
+import { endTaskStream, openTaskStream } from "./task-streams";
+import type { AgentTask, QueueEntry, QueueLimits, QueueSnapshot } from "./types";
+
+// Parse "model=limit" pairs, e.g. AGENT_MODEL_CONCURRENCY="claude-4.5-sonnet=2,gpt-5=1"
+const parseModelLimits = (value: string | undefined): Record<string, number> => {
+  const limits: Record<string, number> = {};
+  for (const pair of (value || "").split(",")) {
+    const [model, limit] = pair.split("=").map((part) => part.trim());
+    const parsed = Number.parseInt(limit, 10);
+    if (model && Number.isFinite(parsed) && parsed > 0) {
+      limits[model] = parsed;
+    }
+  }
+  return limits;
+};
+
+// A limits update from the API - anything given must be a positive whole number
+const queueLimit = z.number().int().positive();
+export const queueLimitsUpdateSchema = z.object({
+  maxConcurrent: queueLimit.optional(),
+  perModel: z.record(z.string(), queueLimit).optional(),
+});
+
+const DEFAULT_LIMITS: QueueLimits = {
+  maxConcurrent: Number.parseInt(process.env.AGENT_MAX_CONCURRENCY || "", 10) || 3,
+  perModel: parseModelLimits(process.env.AGENT_MODEL_CONCURRENCY),
+};
+
+interface QueueState {
+  limits: QueueLimits;
+  pending: QueueEntry[];
+  running: Map<string, QueueEntry>;
+  runs: Map<string, Promise<void>>; // Settles when the task's current run is over
+}
+
+// Shared across route bundles so /api/queue and /api/agent see the same queue
+const globalForQueue = globalThis as unknown as {
+  taskQueue?: QueueState;
+  ownerHeartbeat?: ReturnType<typeof setInterval>;
+};
+const queue: QueueState = globalForQueue.taskQueue ?? {
+  limits: DEFAULT_LIMITS,
+  pending: [],
+  running: new Map(),
+  runs: new Map(),
+};
+globalForQueue.taskQueue = queue;
+
+const OWNER_HEARTBEAT_MS = 15 * 1000; // Well within the time after which db.ts treats an owner as gone
+
+// Keep the tasks this process holds marked as alive, and pick up the ones other server
+// processes sharing the storage left behind when they died
+globalForQueue.ownerHeartbeat ??= setInterval(() => {
+  for (const taskId of [...queue.running.keys(), ...queue.pending.map((entry) => entry.taskId)]) {
+    dbOperations.touchRunOwner(taskId);
+  }
+  dbOperations.markInterruptedTasks();
+}, OWNER_HEARTBEAT_MS).unref();
+
+// Same scheme as the client: deterministic session ID from repo path + prompt
+export const generateSessionId = (repoPath: string, prompt: string) => {
+  const hash = createHash("sha256").update(`${repoPath}::${prompt}`).digest("hex");
+  return `session-${hash.slice(0, 16)}`;
+};
+
+const countRunningForModel = (model: string) =>
+  Array.from(queue.running.values()).filter((entry) => entry.model === model).length;
+
+const hasFreeSlot = (model: string) => {
+  if (queue.running.size >= queue.limits.maxConcurrent) return false;
+  const modelLimit = queue.limits.perModel[model];
+  return modelLimit === undefined || countRunningForModel(model) < modelLimit;
+};
+
+// End a task that never got to run; anyone following its stream is let go
+const finishWithoutRun = (task: AgentTask, status: "failed" | "cancelled", error?: string) => {
+  task.status = status;
+  task.error = error;
+  task.lastActivityTime = Date.now();
+  saveRunState(task);
+  endTaskStream(task.id);
+};
+
+// Run a queued task to completion on the server - no browser connection needed
+const runQueuedTask = async (task: AgentTask, entry: QueueEntry) => {
+  const configError = agentProvider.configError();
+  if (configError) {
+    finishWithoutRun(task, "failed", configError);
+    return;
+  }
+
+  const prompt = task.prompt || task.customPrompt || "Analyze this project.";
+  const model = task.model || DEFAULT_MODEL;
+  let sessionId: string | undefined;
+  try {
+    const workingDirectory = await prepareWorkingDirectory(task, task.repoPath);
+    const acquired = await acquireSession({
+      model,
+      sessionId: task.sessionId,
+      workingDirectory,
+    });
+    const { session, isNew } = acquired;
+    sessionId = acquired.sessionId;
+
+    // Resumed tasks get a fresh agent seeded with the transcript so far. Follow-ups
+    // (e.g. an approval decision) go to the task's agent, or to a seeded one if it's gone.
+    let request = entry.resume ? buildResumeMessage(task) : prompt;
+    if (entry.followUp) {
+      request = isNew
+        ? `${buildResumeMessage(task)}\n\n${entry.followUp.message}`
+        : entry.followUp.message;
+    }
+    const message = task.mode === "plan" ? buildPlanMessage(request) : request;
+
+    task.sessionId = sessionId;
+    task.status = "running";
+    task.lastActivityTime = Date.now();
+    saveRunState(task);
+
+    const submission = submitToSession(
+      session,
+      isNew ? buildContextualMessage(workingDirectory, message) : message
+    );
+
+    await runSubmission({
+      sessionId,
+      session,
+      submission,
+      message: entry.followUp?.label || (entry.resume ? "▶️ Resume interrupted task" : prompt),
+      task,
+      sink: { send: () => {}, close: () => {} },
+    });
+  } catch (error) {
+    console.error(`[Queue] Task ${task.id} failed to start:`, error);
+    // An agent still busy after being force-stopped is stuck - start over with a new one next time
+    if (sessionId && error instanceof Error && error.message.includes("Agent busy")) {
+      agentSessions.delete(sessionId);
+      finishWithoutRun(task, "failed", "Agent was stuck. Session cleared. Please retry your request.");
+      return;
+    }
+    finishWithoutRun(task, "failed", error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+// Start as many pending tasks as the limits allow
+const schedule = () => {
+  for (const entry of [...queue.pending]) {
+    if (queue.running.size >= queue.limits.maxConcurrent) break;
+    // A follow-up waits for the task's previous run to wind down
+    if (!hasFreeSlot(entry.model) || queue.running.has(entry.taskId)) continue;
+
+    queue.pending = queue.pending.filter((e) => e.taskId !== entry.taskId);
+
+    const task = dbOperations.getTask(entry.taskId);
+    if (!task || task.status !== "pending") {
+      console.log(`[Queue] Skipping ${entry.taskId} - no longer pending`);
+      endTaskStream(entry.taskId);
+      continue;
+    }
+
+    const runningEntry: QueueEntry = { ...entry, startedAt: Date.now() };
+    queue.running.set(entry.taskId, runningEntry);
+    console.log(
+      `[Queue] ▶️ Starting ${task.repoName} (${entry.model}) - ${queue.running.size}/${queue.limits.maxConcurrent} running, ${queue.pending.length} pending`
+    );
+
+    const run = runQueuedTask(task, runningEntry).finally(() => {
+      queue.running.delete(entry.taskId);
+      queue.runs.delete(entry.taskId);
+      console.log(`[Queue] ⏹️ Finished ${task.repoName} with status: ${task.status}`);
+      schedule();
+    });
+    queue.runs.set(entry.taskId, run);
+  }
+};
+
+interface EnqueueOptions extends Pick<QueueEntry, "resume" | "followUp"> {
+  streamed?: boolean; // A client follows the run's stream, so it doesn't need polling
+}
+
+export const taskQueue = {
+  // Persist a task as pending and schedule it. Its stream opens right away, so a client can
+  // follow the task from the moment it's queued.
+  enqueue: (task: AgentTask, options: EnqueueOptions = {}) => {
+    const model = task.model || DEFAULT_MODEL;
+    const queuedTask: AgentTask = {
+      ...task,
+      model,
+      status: "pending",
+      queued: !options.streamed,
+      error: undefined,
+      runOwner: currentRunOwner(),
+    };
+    dbOperations.saveTask(queuedTask);
+    openTaskStream(queuedTask);
+
+    queue.pending.push({
+      taskId: queuedTask.id,
+      repoName: queuedTask.repoName,
+      action: queuedTask.action,
+      model,
+      enqueuedAt: Date.now(),
+      resume: options.resume,
+      followUp: options.followUp,
+    });
+    schedule();
+    return queuedTask;
+  },
+
+  // Remove a task that hasn't started yet
+  cancel: (taskId: string): boolean => {
+    const before = queue.pending.length;
+    queue.pending = queue.pending.filter((entry) => entry.taskId !== taskId);
+    if (queue.pending.length === before) return false;
+
+    const task = dbOperations.getTask(taskId);
+    if (task) {
+      finishWithoutRun(task, "cancelled");
+    }
+    return true;
+  },
+
+  // Change concurrency limits at runtime; queued tasks start immediately if slots opened up
+  setLimits: (limits: Partial<QueueLimits>) => {
+    if (limits.maxConcurrent !== undefined && limits.maxConcurrent > 0) {
+      queue.limits.maxConcurrent = Math.floor(limits.maxConcurrent);
+    }
+    if (limits.perModel) {
+      queue.limits.perModel = Object.fromEntries(
+        Object.entries(limits.perModel).filter(([, limit]) => limit > 0)
+      );
+    }
+    schedule();
+  },
+
+  isQueued: (taskId: string) =>
+    queue.running.has(taskId) || queue.pending.some((entry) => entry.taskId === taskId),
+
+  isPending: (taskId: string) => queue.pending.some((entry) => entry.taskId === taskId),
+
+  // Wait up to timeoutMs for the task's current run (if any) to finish; false if it didn't
+  waitForRun: async (taskId: string, timeoutMs: number) => {
+    const run = queue.runs.get(taskId);
+    if (!run) return true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    const finished = await Promise.race([run.then(() => true), timedOut]);
+    clearTimeout(timer);
+    return finished;
+  },
+
+  getSnapshot: (): QueueSnapshot => ({
+    limits: { ...queue.limits, perModel: { ...queue.limits.perModel } },
+    running: Array.from(queue.running.values()),
+    pending: [...queue.pending],
+  }),
+};
+
+export default taskQueue;
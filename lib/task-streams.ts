@@ -0,0 +1,110 @@
+import type { AgentTask, AgentUpdate, TaskEvent } from "./types";
+
+// Live fan-out of each running task's events, so any number of tabs can attach to a run
+// (or re-attach after a refresh) and pick up from the last event id they saw. Only recent
+// events are buffered here; older ones come from the task's event log on disk.
+
+const MAX_BUFFERED_EVENTS = 500;
+
+interface TaskStreamSubscriber {
+  onEvent: (event: TaskEvent) => void;
+  onEnd: () => void;
+}
+
+interface TaskStream {
+  task: AgentTask; // The runner's live copy - its messages include every published event
+  events: TaskEvent[]; // Most recent last
+  subscribers: Set<TaskStreamSubscriber>;
+}
+
+// Kept on globalThis so the agent routes and the stream route share the same streams
+const globalForStreams = globalThis as unknown as { taskStreams?: Map<string, TaskStream> };
+const taskStreams = globalForStreams.taskStreams ?? new Map<string, TaskStream>();
+globalForStreams.taskStreams = taskStreams;
+
+const getOrCreateStream = (task: AgentTask) => {
+  let stream = taskStreams.get(task.id);
+  if (!stream) {
+    stream = { task, events: [], subscribers: new Set() };
+    taskStreams.set(task.id, stream);
+  }
+  stream.task = task;
+  return stream;
+};
+
+// Open a task's stream before its run starts, so listeners can attach while it's queued
+export const openTaskStream = (task: AgentTask) => {
+  getOrCreateStream(task);
+};
+
+// Publish an event a run just logged for its task
+export const publishTaskEvent = (task: AgentTask, event: TaskEvent) => {
+  const stream = getOrCreateStream(task);
+  stream.events.push(event);
+  if (stream.events.length > MAX_BUFFERED_EVENTS) {
+    stream.events.splice(0, stream.events.length - MAX_BUFFERED_EVENTS);
+  }
+
+  for (const subscriber of stream.subscribers) {
+    try {
+      subscriber.onEvent(event);
+    } catch (error) {
+      console.error(`Failed to forward event ${event.seq} of ${task.id}:`, error);
+    }
+  }
+};
+
+// The run finished, paused or never started - let attached listeners close. The event log
+// keeps the history.
+export const endTaskStream = (taskId: string) => {
+  const stream = taskStreams.get(taskId);
+  if (!stream) return;
+  taskStreams.delete(taskId);
+  for (const subscriber of stream.subscribers) {
+    subscriber.onEnd();
+  }
+};
+
+// The run's live task and the id of the last event in it, if the task is running here
+export const getLiveTask = (taskId: string): { task: AgentTask; lastSeq: number } | null => {
+  const stream = taskStreams.get(taskId);
+  if (!stream) return null;
+  return { task: stream.task, lastSeq: stream.events[stream.events.length - 1]?.seq ?? 0 };
+};
+
+// Buffered events after afterSeq, or null if the buffer no longer reaches back that far
+export const getBufferedEvents = (taskId: string, afterSeq: number): TaskEvent[] | null => {
+  const stream = taskStreams.get(taskId);
+  if (!stream) return null;
+  const first = stream.events[0];
+  if (first && first.seq > afterSeq + 1) return null;
+  return stream.events.filter((event) => event.seq > afterSeq);
+};
+
+// Listen for a running task's next events. Returns null if the task isn't running here.
+export const subscribeToTaskStream = (
+  taskId: string,
+  subscriber: TaskStreamSubscriber
+): (() => void) | null => {
+  const stream = taskStreams.get(taskId);
+  if (!stream) return null;
+  stream.subscribers.add(subscriber);
+  return () => {
+    stream.subscribers.delete(subscriber);
+  };
+};
+
+// One Server-Sent Event; the id lets clients resume with Last-Event-ID
+export const formatSseEvent = (update: AgentUpdate, id?: number) => {
+  let payload: string;
+  try {
+    payload = JSON.stringify(update);
+  } catch (stringifyError) {
+    console.error("Failed to stringify update:", stringifyError);
+    payload = JSON.stringify({
+      type: "error",
+      text: `Failed to serialize agent update: ${stringifyError instanceof Error ? stringifyError.message : "Unknown error"}`,
+    });
+  }
+  return `${id !== undefined ? `id: ${id}\n` : ""}data: ${payload}\n\n`;
+};
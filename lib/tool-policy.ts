@@ -0,0 +1,247 @@
+import fs from "fs";
+import path from "path";
+import { STORAGE_DIR } from "./db";
+import { expandHome, isWithin } from "./filesystem-scope";
+import type {
+  ApprovalDecision,
+  PolicyDecision,
+  ToolApprovalRequest,
+  ToolPolicyRule,
+} from "./types";
+
+// Rules live next to the task data; without a file the defaults below apply
+const POLICY_FILE = path.join(STORAGE_DIR, "tool-policy.json");
+
+export const DEFAULT_TOOL_POLICY_RULES: ToolPolicyRule[] = [
+  {
+    id: "deny-rm-rf-outside-repo",
+    description: "Recursive force-delete outside the task's working directory",
+    decision: "deny",
+    tools: ["shell"],
+    commandPattern: "^rm\\s+(-\\S*[rR]\\S*f|-\\S*f\\S*[rR]|-[rR]\\s+-f|-f\\s+-[rR])\\b",
+    outsideWorkingDirectory: true,
+  },
+  {
+    id: "deny-write-outside-repo",
+    description: "File writes, edits and deletes outside the task's working directory",
+    decision: "deny",
+    tools: ["write", "edit", "delete"],
+    outsideWorkingDirectory: true,
+  },
+  {
+    id: "approve-git-push",
+    description: "Pushing to a git remote",
+    decision: "require-approval",
+    tools: ["shell"],
+    commandPattern: "^git\\s+(.+\\s+)?push\\b",
+  },
+  {
+    id: "approve-publish",
+    description: "Publishing a package to a registry",
+    decision: "require-approval",
+    tools: ["shell"],
+    commandPattern: "^(npm|pnpm|yarn|bun)\\s+publish\\b",
+  },
+];
+
+// Read the rules on every evaluation so edits to the file apply without a restart
+export const loadToolPolicyRules = (): ToolPolicyRule[] => {
+  try {
+    if (fs.existsSync(POLICY_FILE)) {
+      const { rules } = JSON.parse(fs.readFileSync(POLICY_FILE, "utf-8"));
+      if (Array.isArray(rules)) return rules;
+      console.error(`Ignoring ${POLICY_FILE}: expected { "rules": [...] }`);
+    }
+  } catch (error) {
+    console.error(`Failed to load ${POLICY_FILE}, using default tool policy:`, error);
+  }
+  return DEFAULT_TOOL_POLICY_RULES;
+};
+
+export interface ToolCallContext {
+  type: string;
+  args?: Record<string, unknown>;
+  workingDirectory: string; // Root the task is allowed to change
+  agentRoot: string; // Where the agent process runs - relative paths resolve against it
+  allowedRoots?: string[]; // Filesystem scope - anything outside is denied before the rules run
+}
+
+export interface PolicyEvaluation {
+  decision: PolicyDecision;
+  rule?: ToolPolicyRule;
+  target: string; // Command or path the decision was about, for the log
+  reason?: string;
+}
+
+// Path-like arguments of a file tool (path, filePath, targetFile, ...)
+const getPathArgs = (args: Record<string, unknown> | undefined): string[] =>
+  Object.entries(args || {})
+    .filter(([key, value]) => typeof value === "string" && /path|file|dir/i.test(key))
+    .map(([, value]) => value as string);
+
+interface ShellSegment {
+  command: string;
+  cwd: string;
+}
+
+// Split a shell command on &&, ||, ; and |, following `cd` so each part knows its directory
+const splitShellCommand = (command: string, agentRoot: string): ShellSegment[] => {
+  const segments: ShellSegment[] = [];
+  let cwd = agentRoot;
+  for (const part of command.split(/&&|\|\||;|\|/)) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+    const cd = trimmed.match(/^cd\s+("[^"]+"|'[^']+'|\S+)\s*$/);
+    if (cd) {
+      cwd = path.resolve(cwd, expandHome(cd[1].replace(/^["']|["']$/g, "")));
+    }
+    segments.push({ command: trimmed, cwd });
+  }
+  return segments;
+};
+
+// Non-flag arguments of a command, resolved to absolute paths. Anything we can't
+// resolve statically ($VARS, command substitution) is null and treated as outside.
+const resolveCommandPaths = ({ command, cwd }: ShellSegment): Array<string | null> =>
+  command
+    .split(/\s+/)
+    .slice(1)
+    .filter((token) => token && !token.startsWith("-"))
+    .map((token) => token.replace(/^["']|["']$/g, ""))
+    .map((token) =>
+      /[$`]/.test(token) ? null : path.resolve(cwd, expandHome(token))
+    );
+
+const touchesOutside = (paths: Array<string | null>, workingDirectory: string) =>
+  paths.some((p) => p === null || !isWithin(workingDirectory, p));
+
+const testPattern = (rule: ToolPolicyRule, command: string) => {
+  if (!rule.commandPattern) return true;
+  try {
+    return new RegExp(rule.commandPattern).test(command);
+  } catch {
+    console.error(`Tool policy rule "${rule.id}" has an invalid commandPattern - skipping it`);
+    return false;
+  }
+};
+
+const matchRule = (rule: ToolPolicyRule, call: ToolCallContext): string | null => {
+  if (!rule.tools.includes(call.type)) return null;
+
+  if (call.type === "shell") {
+    const command = String(call.args?.command || "");
+    for (const segment of splitShellCommand(command, call.agentRoot)) {
+      if (!testPattern(rule, segment.command)) continue;
+      if (
+        rule.outsideWorkingDirectory &&
+        !touchesOutside(resolveCommandPaths(segment), call.workingDirectory)
+      ) {
+        continue;
+      }
+      return segment.command;
+    }
+    return null;
+  }
+
+  const paths = getPathArgs(call.args).map((p) => path.resolve(call.agentRoot, expandHome(p)));
+  if (rule.outsideWorkingDirectory) {
+    const outside = paths.find((p) => !isWithin(call.workingDirectory, p));
+    return outside ?? null;
+  }
+  return paths[0] ?? call.type;
+};
+
+const describeTarget = (call: ToolCallContext) =>
+  call.type === "shell"
+    ? String(call.args?.command || "")
+    : getPathArgs(call.args)[0] || call.type;
+
+// Built-in rule behind the filesystem scope check, so it's logged like any other rule
+export const FILESYSTEM_SCOPE_RULE: ToolPolicyRule = {
+  id: "filesystem-scope",
+  description: "Path outside the agent's filesystem scope",
+  decision: "deny",
+  tools: [],
+};
+
+// Shell arguments that name a path explicitly (absolute, ~/ or ../). The command name and
+// bare words are skipped - they resolve inside the current directory anyway.
+const getShellPathTokens = (command: string) =>
+  command
+    .split(/\s+/)
+    .slice(1)
+    .map((token) => token.replace(/^[<>]+/, "").replace(/^["']|["']$/g, ""))
+    .filter((token) => /^(\/|~|\.\.)/.test(token));
+
+// The first part of the call that resolves outside every allowed root, if any
+const findOutsideScope = (call: ToolCallContext, allowedRoots: string[]): string | null => {
+  const inScope = (target: string) => allowedRoots.some((root) => isWithin(root, target));
+
+  if (call.type === "shell") {
+    for (const segment of splitShellCommand(String(call.args?.command || ""), call.agentRoot)) {
+      const outside =
+        !inScope(segment.cwd) ||
+        getShellPathTokens(segment.command).some(
+          (token) => !inScope(path.resolve(segment.cwd, expandHome(token)))
+        );
+      if (outside) return segment.command;
+    }
+    return null;
+  }
+
+  return (
+    getPathArgs(call.args).find(
+      (p) => !inScope(path.resolve(call.agentRoot, expandHome(p)))
+    ) ?? null
+  );
+};
+
+// Decide whether a tool call may run. Calls outside the filesystem scope are denied first,
+// then the first matching rule wins; no match means allow.
+export const evaluateToolCall = (
+  call: ToolCallContext,
+  rules: ToolPolicyRule[] = loadToolPolicyRules()
+): PolicyEvaluation => {
+  if (call.allowedRoots) {
+    const outside = findOutsideScope(call, call.allowedRoots);
+    if (outside !== null) {
+      return {
+        decision: "deny",
+        rule: FILESYSTEM_SCOPE_RULE,
+        target: outside,
+        reason: `${FILESYSTEM_SCOPE_RULE.description} (allowed: ${call.allowedRoots.join(", ")})`,
+      };
+    }
+  }
+
+  for (const rule of rules) {
+    const target = matchRule(rule, call);
+    if (target !== null) {
+      return {
+        decision: rule.decision,
+        rule,
+        target,
+        reason: `${rule.description} (rule "${rule.id}")`,
+      };
+    }
+  }
+  return { decision: "allow", target: describeTarget(call) };
+};
+
+// What the paused agent is told once the user has decided on its held tool call
+export const buildApprovalFollowUp = (approval: ToolApprovalRequest, decision: ApprovalDecision) =>
+  decision === "approve"
+    ? {
+        label: `✅ Approved ${approval.toolType}: ${approval.target}`,
+        message: `✅ The user approved your ${approval.toolType} call that was held for review:
+${approval.target}
+
+Run it again now - it will be allowed this time - and then continue the task.`,
+      }
+    : {
+        label: `🚫 Denied ${approval.toolType}: ${approval.target}`,
+        message: `🚫 The user denied your ${approval.toolType} call that was held for review:
+${approval.target}
+
+Don't retry it or work around it. Continue the task without it, and say in your final summary what was left for the user to do.`,
+      };
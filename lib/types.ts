@@ -1,12 +1,100 @@
+import type { AgentUpdate } from "./agent-events";
+
 // Repo scanning types
 export interface RepoInfo {
   path: string;
   name: string;
+  ecosystem?: Ecosystem; // Missing from older scans, which only found JavaScript projects
+  language?: RepoLanguage;
   hasTypescript: boolean;
-  framework: "nextjs" | "react" | "vue" | "angular" | "svelte" | "other" | null;
+  framework: Framework | null; // Main framework - the first framework tag
   frameworkVersion: string | null;
+  tags?: RepoTag[]; // Everything detected, main framework first (missing from older scans)
   dependencies: Record<string, string>;
   devDependencies: Record<string, string>;
+  git?: RepoGitInfo | null; // null when the project isn't in a git repo (missing from older scans)
+  workspace?: RepoWorkspace; // Set on monorepo roots
+  workspaceRoot?: string; // Path of the monorepo root this package is a member of
+  packageManager?: PackageManager | null; // From the lockfile, package.json's packageManager field or the manifests
+  lockfile?: string; // Path of the lockfile installed versions were read from
+  installedVersions?: Record<string, string>; // Direct dependency -> version the lockfile resolved
+  frameworkInstalledVersion?: string | null; // Resolved version of the framework package
+}
+
+export type Ecosystem = "node" | "python" | "go" | "rust" | "jvm";
+
+export type RepoLanguage = "javascript" | "typescript" | "python" | "go" | "rust" | "java" | "kotlin";
+
+export type PackageManager =
+  | "npm"
+  | "pnpm"
+  | "yarn"
+  | "bun"
+  | "pip"
+  | "poetry"
+  | "uv"
+  | "pipenv"
+  | "go"
+  | "cargo"
+  | "maven"
+  | "gradle";
+
+export type Framework =
+  | "nextjs"
+  | "nuxt"
+  | "remix"
+  | "astro"
+  | "sveltekit"
+  | "solidstart"
+  | "expo"
+  | "electron"
+  | "nestjs"
+  | "angular"
+  | "react-native"
+  | "vue"
+  | "svelte"
+  | "solid"
+  | "react"
+  | "fastify"
+  | "express"
+  | "django"
+  | "fastapi"
+  | "gin"
+  | "axum"
+  | "spring"
+  | "other";
+
+export type RepoTagKind = "framework" | "runtime" | "bundler" | "test-runner";
+
+// Something a project is built with, detected from one of its dependencies (see frameworks.ts)
+export interface RepoTag {
+  id: string; // Framework for framework tags, e.g. "vite" or "vitest" otherwise
+  kind: RepoTagKind;
+  label: string;
+  package: string; // The dependency that gave it away
+  version: string; // Range declared in the manifest
+}
+
+// What marks a directory as a monorepo root
+export type WorkspaceTool = "pnpm" | "workspaces" | "turbo" | "nx";
+
+export interface RepoWorkspace {
+  tools: WorkspaceTool[];
+  patterns: string[]; // Member globs; empty when none are listed, so every nested package is a member
+  packages: string[]; // Paths of the member packages the scan found
+}
+
+// State of the git checkout a scanned project lives in, read at scan time
+export interface RepoGitInfo {
+  repoRoot: string;
+  branch: string | null; // null on a detached HEAD
+  isDirty: boolean; // Uncommitted or untracked changes anywhere in the checkout
+  upstream?: string; // e.g. "origin/main"; ahead/behind are only set when there is one
+  ahead?: number;
+  behind?: number;
+  lastCommitDate?: number; // Missing in a repo without commits
+  lastCommitAuthor?: string;
+  remoteUrl?: string; // origin, or the first remote if there is no origin
 }
 
 // Task action types
@@ -17,7 +105,20 @@ export type TaskAction =
   | "update-deps"
   | "custom";
 
-export type TaskStatus = "pending" | "running" | "completed" | "failed";
+// "plan" runs are read-only and end with a plan to review instead of changes
+export type TaskMode = "plan" | "execute";
+
+export type TaskStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled" // Removed from the queue before it started
+  | "interrupted" // Was in flight when the server restarted
+  | "awaiting-approval"; // Paused on a tool call the policy holds for the user
+
+// Statuses in which the agent may still touch the task's checkout
+export const ACTIVE_TASK_STATUSES: TaskStatus[] = ["pending", "running", "awaiting-approval"];
 
 // Agent task types
 export interface AgentTask {
@@ -25,6 +126,7 @@ export interface AgentTask {
   repoPath: string;
   repoName: string;
   action: TaskAction;
+  mode?: TaskMode; // Defaults to "execute"
   status: TaskStatus;
   customPrompt?: string;
   createdAt: number;
@@ -34,6 +136,173 @@ export interface AgentTask {
   terminalOutput: TerminalOutput[];
   lastActivityTime?: number;
   sessionId?: string; // For multi-turn conversations
+  model?: string;
+  prompt?: string; // Initial prompt, kept so queued tasks can start without the client
+  queued?: boolean; // No client follows its stream - the page polls it (batch runs, resumes, approvals)
+  useWorktree?: boolean; // Run in a dedicated git worktree instead of the user's checkout
+  worktree?: TaskWorktree;
+  baseCommit?: string; // HEAD of the task's checkout when the agent started
+  preexistingChanges?: string[]; // Uncommitted paths in the user's checkout at that point - never reviewed or reverted
+  fileReview?: Record<string, FileReviewDecision>; // Per-file decisions from the Changes panel
+  commitSha?: string; // Commit created automatically when the task completed
+  commitError?: string;
+  verification?: TaskVerification; // Build/lint/test results after the agent finished
+  autoRepair?: boolean; // Send failing checks back to the agent until they pass
+  repairAttempts?: number;
+  plan?: string; // Final plan produced by a plan-mode run
+  planTaskId?: string; // The plan-mode task this run executes
+  policyLog?: PolicyLogEntry[]; // Tool policy decisions, most recent last
+  pendingApproval?: ToolApprovalRequest;
+  approvedToolCalls?: string[]; // Policy targets the user approved for this task
+  runOwner?: TaskRunOwner; // Server process that queued the task - it keeps heartbeatAt fresh while it has it
+}
+
+// Identifies a server process among all the ones sharing the storage
+export interface TaskRunOwner {
+  processId: string; // Unique per process start, since a restarted server may get the same pid
+  pid: number;
+  hostname: string;
+  heartbeatAt: number;
+}
+
+// Post-task verification (package.json scripts run in the task's checkout)
+// "install" only runs in worktrees that don't have node_modules yet
+export type VerificationStepName = "install" | "build" | "lint" | "test";
+
+export interface VerificationStep {
+  name: VerificationStepName;
+  command: string;
+  status: "pending" | "running" | "passed" | "failed" | "skipped";
+  exitCode?: number;
+  durationMs?: number;
+}
+
+export interface TaskVerification {
+  status: "running" | "passed" | "failed" | "skipped";
+  steps: VerificationStep[];
+  startedAt: number;
+  finishedAt?: number;
+  skippedReason?: string; // e.g. "dependencies not installed"
+  treeHash?: string; // Working tree the checks ran against - an unchanged tree isn't re-verified
+}
+
+// Where agents may work (see lib/filesystem-scope.ts)
+export type FilesystemScopeMode = "repo-only" | "repo-plus-paths" | "home";
+
+export interface FilesystemScope {
+  mode: FilesystemScopeMode;
+  extraPaths: string[]; // Absolute paths allowed besides the repo in "repo-plus-paths" mode
+}
+
+// Tool-call policy (see lib/tool-policy.ts)
+export type PolicyDecision = "allow" | "deny" | "require-approval";
+
+export interface ToolPolicyRule {
+  id: string;
+  description: string;
+  decision: Exclude<PolicyDecision, "allow">;
+  tools: string[]; // Tool types the rule applies to (shell, write, edit, delete, ...)
+  commandPattern?: string; // Regex tested against each part of a shell command
+  outsideWorkingDirectory?: boolean; // Only match calls touching paths outside the task's directory
+}
+
+export interface PolicyLogEntry {
+  timestamp: number;
+  callId?: string;
+  toolType: string;
+  target: string;
+  decision: PolicyDecision;
+  ruleId?: string;
+  reason?: string;
+}
+
+// A tool call the task is paused on until the user approves or denies it
+export interface ToolApprovalRequest {
+  callId?: string;
+  toolType: string;
+  args?: Record<string, unknown>;
+  target: string;
+  ruleId?: string;
+  reason?: string;
+  requestedAt: number;
+}
+
+export type ApprovalDecision = "approve" | "deny";
+
+// Isolated git worktree an agent task runs in
+export interface TaskWorktree {
+  path: string; // Worktree checkout root
+  branch: string; // e.g. agent/upgrade-framework/task-123
+  repoRoot: string; // Main checkout the worktree belongs to
+  workingDirectory: string; // The task's repo path mapped into the worktree
+  baseCommit: string;
+  createdAt: number;
+  mergedAt?: number;
+  mergeCommit?: string;
+  removedAt?: number;
+}
+
+// Diff of a task's changes against its base commit
+export type DiffFileStatus = "added" | "modified" | "deleted";
+export type FileReviewDecision = "accepted" | "reverted";
+
+export interface DiffLine {
+  type: "context" | "add" | "del";
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  header: string; // e.g. @@ -1,4 +1,6 @@
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  path: string; // Relative to the task's repo path
+  status: DiffFileStatus;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface TaskDiff {
+  baseCommit: string;
+  files: DiffFile[];
+  excluded: string[]; // Already uncommitted when the task started, so left out of files
+  review: Record<string, FileReviewDecision>;
+}
+
+// Server-side task queue
+export interface QueueLimits {
+  maxConcurrent: number;
+  perModel: Record<string, number>;
+}
+
+export interface QueueEntry {
+  taskId: string;
+  repoName: string;
+  action: TaskAction;
+  model: string;
+  enqueuedAt: number;
+  startedAt?: number;
+  resume?: boolean; // Continue from the persisted transcript instead of the initial prompt
+  followUp?: { message: string; label: string }; // Send this to the task's agent instead of the prompt
+}
+
+// What POST /api/agent returns: the queued run and where to follow it
+export interface AgentRunHandle {
+  taskId: string;
+  status: TaskStatus;
+  lastEventId: number; // Follow the stream from here to get every update of this run
+  streamUrl: string;
+}
+
+export interface QueueSnapshot {
+  limits: QueueLimits;
+  running: QueueEntry[];
+  pending: QueueEntry[];
 }
 
 export interface TerminalOutput {
@@ -63,16 +332,14 @@ export interface ToolCall {
   isStuck?: boolean;
 }
 
-export interface AgentUpdate {
-  type: string;
-  text?: string;
-  callId?: string;
-  toolCall?: ToolCall;
-  summary?: string;
-  tokens?: number;
-  thinkingDurationMs?: number;
-  userMessage?: { text: string };
-  sessionId?: string;
+// Updates streamed to clients - defined by the event schema in agent-events.ts
+export type { AgentUpdate };
+
+// One line of a task's append-only event log: every update a run produced, in order
+export interface TaskEvent {
+  seq: number; // 1-based, increasing per task
+  timestamp: number;
+  update: AgentUpdate;
 }
 
 // AI SDK compatible message format - simpler and more standard
@@ -0,0 +1,257 @@
+import { execFile } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import { getTaskDirectory, getWorkingTreeHash } from "./git";
+import type {
+  AgentTask,
+  TaskVerification,
+  TerminalOutput,
+  VerificationStep,
+  VerificationStepName,
+} from "./types";
+
+const ALL_STEPS: VerificationStepName[] = ["build", "lint", "test"];
+const DEPENDENCIES_MISSING = "dependencies not installed";
+
+// Which package.json scripts to run after a task, e.g. AGENT_VERIFY_STEPS="build,test" (or "none")
+const parseVerifySteps = (value: string | undefined): VerificationStepName[] => {
+  if (value === undefined) return ALL_STEPS;
+  const steps = value.split(",").map((step) => step.trim());
+  return ALL_STEPS.filter((step) => steps.includes(step));
+};
+
+const VERIFY_STEPS = parseVerifySteps(process.env.AGENT_VERIFY_STEPS);
+const STEP_TIMEOUT_MS = Number.parseInt(process.env.AGENT_VERIFY_TIMEOUT_MS || "", 10) || 10 * 60 * 1000;
+const MAX_OUTPUT_CHARS = 20000;
+
+type PackageManager = "pnpm" | "yarn" | "bun" | "npm";
+
+interface PackageManagerInfo {
+  packageManager: PackageManager;
+  root: string; // Where the lockfile is, or the project itself without one
+  hasLockfile: boolean;
+  yarnBerry?: boolean; // Yarn 2+, whose install flags differ from Yarn 1's
+}
+
+// Yarn 2+ shows in package.json's "packageManager" field (e.g. "yarn@4.1.0"), or without one
+// in a .yarnrc.yml - Yarn 1 reads .yarnrc instead
+const isYarnBerry = (root: string) => {
+  try {
+    const { packageManager } = JSON.parse(readFileSync(path.join(root, "package.json"), "utf-8"));
+    const match = typeof packageManager === "string" ? /^yarn@(\d+)/.exec(packageManager) : null;
+    if (match) return Number(match[1]) >= 2;
+  } catch {
+    // No readable package.json next to the lockfile
+  }
+  return existsSync(path.join(root, ".yarnrc.yml"));
+};
+
+// Pick the package manager the project's lockfile belongs to
+const detectPackageManager = (dir: string): PackageManagerInfo => {
+  for (let current = dir; ; current = path.dirname(current)) {
+    const found = (packageManager: PackageManager) => ({
+      packageManager,
+      root: current,
+      hasLockfile: true,
+    });
+    if (existsSync(path.join(current, "pnpm-lock.yaml"))) return found("pnpm");
+    if (existsSync(path.join(current, "yarn.lock"))) {
+      return { ...found("yarn"), yarnBerry: isYarnBerry(current) };
+    }
+    if (existsSync(path.join(current, "bun.lockb")) || existsSync(path.join(current, "bun.lock"))) return found("bun");
+    if (existsSync(path.join(current, "package-lock.json"))) return found("npm");
+    // Stop at the repository root
+    if (existsSync(path.join(current, ".git")) || path.dirname(current) === current) {
+      return { packageManager: "npm", root: dir, hasLockfile: false };
+    }
+  }
+};
+
+// Install exactly what the lockfile pins, without rewriting it
+const installArgs = ({ packageManager, hasLockfile, yarnBerry }: PackageManagerInfo) => {
+  if (packageManager === "npm") {
+    return hasLockfile ? ["ci"] : ["install", "--no-package-lock"];
+  }
+  return yarnBerry ? ["install", "--immutable"] : ["install", "--frozen-lockfile"];
+};
+
+// Whether node_modules exists anywhere from dir up to the lockfile's directory
+const hasNodeModules = (dir: string, root: string) => {
+  for (let current = dir; ; current = path.dirname(current)) {
+    if (existsSync(path.join(current, "node_modules"))) return true;
+    if (current === root || path.dirname(current) === current) return false;
+  }
+};
+
+const runCommand = (packageManager: string, args: string[], cwd: string) =>
+  new Promise<{ exitCode: number; output: string }>((resolve) => {
+    execFile(
+      packageManager,
+      args,
+      {
+        cwd,
+        timeout: STEP_TIMEOUT_MS,
+        maxBuffer: 20 * 1024 * 1024,
+        // Keep test runners out of watch mode and interactive prompts
+        env: { ...process.env, CI: "1" },
+      },
+      (error, stdout, stderr) => {
+        let output = `${stdout}${stderr}`;
+        if (output.length > MAX_OUTPUT_CHARS) {
+          output = `[output truncated]\n${output.slice(-MAX_OUTPUT_CHARS)}`;
+        }
+        if (error?.killed) {
+          output += `\nTimed out after ${Math.round(STEP_TIMEOUT_MS / 1000)}s`;
+        }
+        const exitCode = !error ? 0 : typeof error.code === "number" ? error.code : 1;
+        resolve({ exitCode, output: output || error?.message || "" });
+      }
+    );
+  });
+
+const terminalEntryId = (step: VerificationStepName, startedAt: number) =>
+  `verify-${step}-${startedAt}`;
+
+// Called as each step starts and finishes, with the terminal entry for that step
+type VerificationListener = (verification: TaskVerification, entry?: TerminalOutput) => void;
+
+// Run the project's build/lint/test scripts in the task's checkout and record the results.
+// A fresh worktree gets its dependencies installed first; a checkout that has none and can't
+// get them is marked skipped instead of failing every check.
+// Returns null when there is nothing (new) to verify: no package.json, no matching scripts, or
+// a checkout that hasn't changed since task.verification ran.
+export const runVerification = async (
+  task: AgentTask,
+  onProgress: VerificationListener
+): Promise<TaskVerification | null> => {
+  if (VERIFY_STEPS.length === 0) return null;
+
+  const dir = getTaskDirectory(task);
+  let scripts: Record<string, string>;
+  try {
+    const packageJson = JSON.parse(await readFile(path.join(dir, "package.json"), "utf-8"));
+    scripts = packageJson.scripts || {};
+  } catch {
+    return null;
+  }
+
+  const stepNames = VERIFY_STEPS.filter((step) => scripts[step]);
+  if (stepNames.length === 0) return null;
+
+  // Follow-ups that didn't touch any files keep the previous result - unless it was skipped,
+  // since installing dependencies doesn't change the tree
+  const treeHash = await getWorkingTreeHash(dir).catch(() => undefined);
+  const previous = task.verification;
+  if (
+    treeHash &&
+    previous?.treeHash === treeHash &&
+    (previous.status === "passed" || previous.status === "failed")
+  ) {
+    console.log(`🧪 ${task.repoName} is unchanged since it was last verified`);
+    return null;
+  }
+
+  const packageManagerInfo = detectPackageManager(dir);
+  const { packageManager, root } = packageManagerInfo;
+  const steps: VerificationStep[] = stepNames.map((name) => ({
+    name,
+    command: `${packageManager} run ${name}`,
+    status: "pending",
+  }));
+
+  let skippedReason: string | undefined;
+  if (!hasNodeModules(dir, root)) {
+    // Only the agent's own worktree gets an install - the user's checkout is theirs to set up
+    if (task.worktree && !task.worktree.removedAt) {
+      const args = installArgs(packageManagerInfo);
+      steps.unshift({ name: "install", command: `${packageManager} ${args.join(" ")}`, status: "pending" });
+    } else {
+      skippedReason = DEPENDENCIES_MISSING;
+    }
+  }
+
+  const verification: TaskVerification = {
+    status: "running",
+    steps,
+    startedAt: Date.now(),
+    treeHash,
+  };
+  task.verification = verification;
+  task.terminalOutput = task.terminalOutput || [];
+  console.log(`🧪 Verifying ${task.repoName}: ${steps.map((step) => step.name).join(", ")}`);
+
+  for (const step of verification.steps) {
+    if (skippedReason) {
+      step.status = "skipped";
+      continue;
+    }
+
+    const entry: TerminalOutput = {
+      id: terminalEntryId(step.name, verification.startedAt),
+      timestamp: Date.now(),
+      command: step.command,
+      toolType: `verify:${step.name}`,
+      isRunning: true,
+    };
+    step.status = "running";
+    task.terminalOutput.push(entry);
+    onProgress(verification, entry);
+
+    const startedAt = Date.now();
+    const { exitCode, output } =
+      step.name === "install"
+        ? await runCommand(packageManager, installArgs(packageManagerInfo), root)
+        : await runCommand(packageManager, ["run", step.name], dir);
+    step.status = exitCode === 0 ? "passed" : "failed";
+    step.exitCode = exitCode;
+    step.durationMs = Date.now() - startedAt;
+    Object.assign(entry, { output, exitCode, isRunning: false });
+    console.log(`🧪 ${task.repoName} ${step.name}: ${step.status} (exit ${exitCode})`);
+    onProgress(verification, entry);
+
+    // Nothing the agent changed can be judged without dependencies
+    if (step.name === "install" && step.status === "failed") {
+      skippedReason = DEPENDENCIES_MISSING;
+    }
+  }
+
+  verification.status = skippedReason
+    ? "skipped"
+    : verification.steps.some((s) => s.status === "failed")
+    ? "failed"
+    : "passed";
+  verification.skippedReason = skippedReason;
+  verification.finishedAt = Date.now();
+  if (skippedReason) {
+    console.log(`🧪 Skipped verifying ${task.repoName}: ${skippedReason}`);
+  }
+  onProgress(verification);
+  return verification;
+};
+
+const MAX_REPAIR_OUTPUT_CHARS = 6000;
+
+// Follow-up message for an auto-repair round: the failing steps and the tail of their output
+export const buildRepairMessage = (
+  task: AgentTask,
+  verification: TaskVerification,
+  attempt: number,
+  maxAttempts: number
+) => {
+  const failures = verification.steps
+    .filter((step) => step.status === "failed")
+    .map((step) => {
+      const entry = task.terminalOutput.find(
+        (e) => e.id === terminalEntryId(step.name, verification.startedAt)
+      );
+      const output = (entry?.output || "").slice(-MAX_REPAIR_OUTPUT_CHARS);
+      return `### \`${step.command}\` exited with ${step.exitCode}\n\`\`\`\n${output}\n\`\`\``;
+    });
+
+  return `🔧 Auto-repair attempt ${attempt}/${maxAttempts}: the project's checks failed after your changes.
+
+${failures.join("\n\n")}
+
+Fix the cause of these failures in the repository. Don't disable or skip the failing checks.`;
+};
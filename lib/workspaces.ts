@@ -0,0 +1,110 @@
+import fs from "fs/promises";
+import path from "path";
+import type { RepoInfo, RepoWorkspace, WorkspaceTool } from "./types";
+
+// Monorepo roots and their member packages, recognised from the files the workspace tools
+// read themselves: pnpm-workspace.yaml, the "workspaces" field of package.json (npm, yarn,
+// bun), turbo.json and nx.json. Turborepo and Nx defer to the package manager's globs, so a
+// root marked only by them counts every package below it as a member.
+
+const fileExists = (file: string) =>
+  fs.access(file).then(
+    () => true,
+    () => false
+  );
+
+const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, "$2");
+
+// Just the "packages" list of pnpm-workspace.yaml, in block or flow style
+export const parsePnpmWorkspacePackages = (yaml: string): string[] => {
+  const lines = yaml.split("\n").map((line) => line.replace(/\s+#.*$/, "").trimEnd());
+  const start = lines.findIndex((line) => /^packages\s*:/.test(line));
+  if (start === -1) return [];
+
+  const inline = lines[start].match(/^packages\s*:\s*\[(.*)\]/);
+  if (inline) return inline[1].split(",").map(unquote).filter(Boolean);
+
+  const packages: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (!line.trim()) continue;
+    const item = line.match(/^\s+-\s*(.+)$/);
+    if (!item) break; // Next top-level key
+    packages.push(unquote(item[1]));
+  }
+  return packages;
+};
+
+// How the directory of a package.json is set up as a monorepo root, or null if it isn't one
+export const detectWorkspace = async (
+  dir: string,
+  pkg: { workspaces?: string[] | { packages?: string[] } }
+): Promise<Pick<RepoWorkspace, "tools" | "patterns"> | null> => {
+  const tools: WorkspaceTool[] = [];
+  const patterns: string[] = [];
+
+  try {
+    const yaml = await fs.readFile(path.join(dir, "pnpm-workspace.yaml"), "utf-8");
+    tools.push("pnpm");
+    patterns.push(...parsePnpmWorkspacePackages(yaml));
+  } catch {
+    // Not a pnpm workspace
+  }
+
+  const workspaces = Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces?.packages;
+  if (workspaces?.length) {
+    tools.push("workspaces");
+    patterns.push(...workspaces);
+  }
+
+  if (await fileExists(path.join(dir, "turbo.json"))) tools.push("turbo");
+  if (await fileExists(path.join(dir, "nx.json"))) tools.push("nx");
+
+  return tools.length > 0 ? { tools, patterns: Array.from(new Set(patterns)) } : null;
+};
+
+// Workspace globs ("packages/*", "apps/**", "!**/fixtures/**") as a regex for relative paths
+const globToRegExp = (glob: string) => {
+  const source = glob
+    .replace(/^\.\//, "")
+    .replace(/\/+$/, "")
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map((part) => {
+      if (part === "**/") return "(?:.*/)?";
+      if (part === "**") return ".*";
+      if (part === "*") return "[^/]*";
+      if (part === "?") return "[^/]";
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+};
+
+export const matchesWorkspacePatterns = (relativePath: string, patterns: string[]) => {
+  const included = patterns.filter((p) => !p.startsWith("!"));
+  const excluded = patterns.filter((p) => p.startsWith("!")).map((p) => p.slice(1));
+  return (
+    included.some((p) => globToRegExp(p).test(relativePath)) &&
+    !excluded.some((p) => globToRegExp(p).test(relativePath))
+  );
+};
+
+// Link scanned packages to the innermost workspace root that claims them. Roots come in with
+// workspace.tools and workspace.patterns set; their packages lists are filled in here.
+export const linkWorkspaceMembers = (repos: RepoInfo[]) => {
+  const roots = repos
+    .filter((repo) => repo.workspace)
+    .sort((a, b) => b.path.length - a.path.length);
+
+  for (const repo of repos) {
+    const root = roots.find((candidate) => {
+      if (candidate === repo || !repo.path.startsWith(candidate.path + path.sep)) return false;
+      const { patterns } = candidate.workspace!;
+      const relativePath = path.relative(candidate.path, repo.path).split(path.sep).join("/");
+      return patterns.length === 0 || matchesWorkspacePatterns(relativePath, patterns);
+    });
+    if (!root) continue;
+
+    repo.workspaceRoot = root.path;
+    root.workspace!.packages.push(repo.path);
+  }
+};